@@ -0,0 +1,103 @@
+import { SessionRecorder, RECORDING_FILES } from '../lib/recorder.js';
+import { copyFile, mkdir } from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config({ override: true });
+
+// Lists, fetches and prunes the sessions recorded in RELAY_RECORDINGS_DIR:
+//   node relay-server/bin/recordings.js list [user]
+//   node relay-server/bin/recordings.js show <id>
+//   node relay-server/bin/recordings.js fetch <id> <destination-dir>
+//   node relay-server/bin/recordings.js delete <id>
+//   node relay-server/bin/recordings.js prune <older-than-days>
+const USAGE = `Usage: node relay-server/bin/recordings.js <command>
+  list [user]                  Recordings, newest first
+  show <id>                    A recording's metadata
+  fetch <id> <destination>     Copy a recording's files to a directory
+  delete <id>                  Delete a finished recording
+  prune <older-than-days>      Delete finished recordings older than N days
+RELAY_RECORDINGS_DIR must be set.`;
+
+const [command, ...args] = process.argv.slice(2);
+
+if (!command || !process.env.RELAY_RECORDINGS_DIR) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const recorder = new SessionRecorder(process.env.RELAY_RECORDINGS_DIR);
+
+const findRecording = async (id) => {
+  const recording = id && (await recorder.get(id));
+  if (!recording) {
+    console.error(`Recording "${id}" not found`);
+    process.exit(1);
+  }
+  return recording;
+};
+
+const formatSeconds = (seconds) =>
+  seconds === undefined ? '-' : `${Math.round(seconds)}s`;
+
+switch (command) {
+  case 'list': {
+    const recordings = await recorder.list(args[0] ? { user: args[0] } : {});
+    for (const { id, user, upstream, endedAt, audioSeconds } of recordings) {
+      console.log(
+        [
+          id,
+          user || '-',
+          upstream,
+          endedAt ? 'finished' : 'unfinished',
+          `in ${formatSeconds(audioSeconds?.input)}`,
+          `out ${formatSeconds(audioSeconds?.output)}`,
+        ].join('\t')
+      );
+    }
+    break;
+  }
+  case 'show': {
+    console.log(JSON.stringify(await findRecording(args[0]), null, 2));
+    break;
+  }
+  case 'fetch': {
+    const { id } = await findRecording(args[0]);
+    if (!args[1]) {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    const destination = path.join(args[1], id);
+    await mkdir(destination, { recursive: true });
+    for (const name of RECORDING_FILES) {
+      await copyFile(recorder.file(id, name), path.join(destination, name));
+    }
+    console.log(destination);
+    break;
+  }
+  case 'delete': {
+    const recording = await findRecording(args[0]);
+    const { id } = recording;
+    if (recorder.isRecording(recording)) {
+      console.error(`Recording "${id}" is still in progress`);
+      process.exit(1);
+    }
+    await recorder.remove(id);
+    console.log(`Deleted ${id}`);
+    break;
+  }
+  case 'prune': {
+    const days = parseFloat(args[0]);
+    if (!(days >= 0)) {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    const removed = await recorder.prune({
+      olderThanMs: days * 24 * 60 * 60_000,
+    });
+    console.log(`Deleted ${removed.length} recording(s)`);
+    break;
+  }
+  default:
+    console.error(USAGE);
+    process.exit(1);
+}
@@ -0,0 +1,27 @@
+import { RelayAuth } from '../lib/auth.js';
+import dotenv from 'dotenv';
+dotenv.config({ override: true });
+
+// Signs a session token for a user in RELAY_USERS_FILE, for handing out
+// access without an invite code:
+//   node relay-server/bin/token.js <user> [ttl-hours]
+const [userId, ttlHours] = process.argv.slice(2);
+
+if (!userId || !process.env.RELAY_USERS_FILE) {
+  console.error(
+    `Usage: node relay-server/bin/token.js <user> [ttl-hours]\n` +
+      `RELAY_USERS_FILE and RELAY_AUTH_SECRET must be set.`
+  );
+  process.exit(1);
+}
+
+const auth = await RelayAuth.fromFile(
+  process.env.RELAY_USERS_FILE,
+  process.env.RELAY_AUTH_SECRET
+);
+const { token, expiresAt } = auth.sign(
+  userId,
+  ttlHours ? parseFloat(ttlHours) * 60 * 60_000 : undefined
+);
+console.log(token);
+console.error(`Expires at ${expiresAt}`);
@@ -1,18 +1,133 @@
 import { RealtimeRelay } from './lib/relay.js';
+import { CodeRunner } from './lib/runner.js';
+import { SessionArchive } from './lib/session_archive.js';
+import { MockRealtime } from './lib/mock_realtime.js';
+import { ScenarioLibrary } from './lib/mock_scenario.js';
+import { RelayAuth } from './lib/auth.js';
+import { UsageTracker } from './lib/usage.js';
+import { SessionRecorder } from './lib/recorder.js';
+import { HiddenTestLibrary } from './lib/hidden_tests.js';
 import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
 dotenv.config({ override: true });
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const MOCK_REALTIME = process.env.MOCK_REALTIME === 'true';
 
-if (!OPENAI_API_KEY) {
+if (!OPENAI_API_KEY && !MOCK_REALTIME) {
   console.error(
     `Environment variable "OPENAI_API_KEY" is required.\n` +
-      `Please set it in your .env file.`
+      `Please set it in your .env file, or set MOCK_REALTIME=true.`
   );
   process.exit(1);
 }
 
 const PORT = parseInt(process.env.PORT) || 8081;
 
-const relay = new RealtimeRelay(OPENAI_API_KEY);
+// Web pages from other origins may not use the relay, comma-separated
+const ALLOWED_ORIGINS = (
+  process.env.RELAY_ALLOWED_ORIGINS || 'http://localhost:3000'
+)
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const archive = process.env.SESSION_ARCHIVE_DIR
+  ? new SessionArchive(process.env.SESSION_ARCHIVE_DIR, {
+      log: (...args) => console.log(`[SessionArchive]`, ...args),
+    })
+  : null;
+
+// Hidden test cases of the bundled questions, see HiddenTestLibrary
+const hiddenTests = new HiddenTestLibrary(
+  process.env.RELAY_HIDDEN_TESTS_DIR ||
+    path.join(path.dirname(fileURLToPath(import.meta.url)), 'hidden_tests')
+);
+
+const mock = MOCK_REALTIME
+  ? new MockRealtime(
+      new ScenarioLibrary(
+        process.env.MOCK_SCENARIO_DIR ||
+          path.join(
+            path.dirname(fileURLToPath(import.meta.url)),
+            'fixtures',
+            'scenarios'
+          )
+      ),
+      {
+        scenario: process.env.MOCK_SCENARIO || 'interview',
+        chunkDelayMs: parseInt(process.env.MOCK_CHUNK_DELAY_MS ?? '20') || 0,
+      }
+    )
+  : null;
+
+// Users and invite codes come from RELAY_USERS_FILE; without it, anyone
+// who can reach the relay can use it
+const auth = process.env.RELAY_USERS_FILE
+  ? await RelayAuth.fromFile(
+      process.env.RELAY_USERS_FILE,
+      process.env.RELAY_AUTH_SECRET,
+      {
+        tokenTtlMs:
+          (parseFloat(process.env.RELAY_TOKEN_TTL_HOURS) || 12) * 60 * 60_000,
+        defaults: {
+          maxConcurrentSessions:
+            parseInt(process.env.RELAY_MAX_CONCURRENT_SESSIONS) || 1,
+          maxMinutesPerDay:
+            parseInt(process.env.RELAY_MAX_MINUTES_PER_DAY) || 120,
+        },
+      }
+    )
+  : null;
+
+// Running candidate code is opt-in: RUNNER_ENABLED=true with
+// RUNNER_SANDBOX=bwrap, and only for users signed in to the relay
+const RUNNER_ENABLED = process.env.RUNNER_ENABLED === 'true';
+
+if (RUNNER_ENABLED && !auth) {
+  console.error(
+    `RUNNER_ENABLED=true needs relay auth.\n` +
+      `Please set RELAY_USERS_FILE, or leave the code runner off.`
+  );
+  process.exit(1);
+}
+
+const runner = RUNNER_ENABLED
+  ? new CodeRunner({
+      timeoutMs: parseInt(process.env.RUNNER_TIMEOUT_MS) || 5000,
+      memoryMb: parseInt(process.env.RUNNER_MEMORY_MB) || 256,
+      sandbox: process.env.RUNNER_SANDBOX || null,
+    })
+  : null;
+
+const usage = auth
+  ? new UsageTracker({
+      logFile: process.env.RELAY_USAGE_LOG || null,
+      log: (...args) => console.log(`[UsageTracker]`, ...args),
+    })
+  : null;
+await usage?.load();
+
+// Every relayed event and both audio tracks, per session
+const recorder = process.env.RELAY_RECORDINGS_DIR
+  ? new SessionRecorder(process.env.RELAY_RECORDINGS_DIR, {
+      log: (...args) => console.log(`[SessionRecorder]`, ...args),
+    })
+  : null;
+const retentionDays = parseFloat(process.env.RELAY_RECORDINGS_RETENTION_DAYS);
+if (recorder && retentionDays > 0) {
+  await recorder.prune({ olderThanMs: retentionDays * 24 * 60 * 60_000 });
+}
+
+const relay = new RealtimeRelay(OPENAI_API_KEY, {
+  runner,
+  archive,
+  mock,
+  auth,
+  usage,
+  recorder,
+  allowedOrigins: ALLOWED_ORIGINS,
+  hiddenTests,
+});
 relay.listen(PORT);
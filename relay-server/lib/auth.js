@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { readFile } from 'fs/promises';
+import { HttpError } from './http.js';
+
+// Browsers can't set headers on WebSockets, so the RealtimeClient sends its
+// API key as a subprotocol. With the relay, that "key" is our token
+const KEY_PROTOCOL_PREFIX = 'openai-insecure-api-key.';
+
+const base64url = (data) => Buffer.from(data).toString('base64url');
+
+/**
+ * Signed session tokens and invite codes for the relay
+ *
+ * Users are listed in a JSON file:
+ *   { "users": [{ "id": "alice", "inviteCode": "...",
+ *                 "maxConcurrentSessions": 1, "maxMinutesPerDay": 60 }] }
+ * Limits missing from a user fall back to the relay-wide defaults
+ */
+export class RelayAuth {
+  constructor(
+    secret,
+    users,
+    { tokenTtlMs = 12 * 60 * 60_000, defaults = {} } = {}
+  ) {
+    if (!secret) {
+      throw new Error('A signing secret is required for relay auth');
+    }
+    this.secret = secret;
+    this.tokenTtlMs = tokenTtlMs;
+    this.users = new Map(
+      users.map((user) => [
+        user.id,
+        {
+          id: user.id,
+          inviteCode: user.inviteCode || null,
+          maxConcurrentSessions:
+            user.maxConcurrentSessions ?? defaults.maxConcurrentSessions ?? 1,
+          maxMinutesPerDay:
+            user.maxMinutesPerDay ?? defaults.maxMinutesPerDay ?? 120,
+        },
+      ])
+    );
+  }
+
+  static async fromFile(filename, secret, options) {
+    const data = JSON.parse(await readFile(filename, 'utf8'));
+    if (!Array.isArray(data?.users)) {
+      throw new Error(`"${filename}" must contain a "users" array`);
+    }
+    for (const user of data.users) {
+      if (typeof user?.id !== 'string' || !user.id) {
+        throw new Error(`Every user in "${filename}" needs an "id"`);
+      }
+    }
+    return new RelayAuth(secret, data.users, options);
+  }
+
+  hmac(data) {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(data)
+      .digest('base64url');
+  }
+
+  /**
+   * Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256)
+   */
+  sign(userId, ttlMs = this.tokenTtlMs) {
+    if (!this.users.has(userId)) {
+      throw new Error(`Unknown user: "${userId}"`);
+    }
+    const expiresAt = Date.now() + ttlMs;
+    const payload = base64url(JSON.stringify({ sub: userId, exp: expiresAt }));
+    return {
+      token: `${payload}.${this.hmac(payload)}`,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  verify(token) {
+    const [payload, signature = ''] = (token || '').split('.');
+    const expected = Buffer.from(this.hmac(payload || ''));
+    const actual = Buffer.from(signature);
+    if (
+      !payload ||
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+    let claims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch (e) {
+      return null;
+    }
+    if (typeof claims.exp !== 'number' || claims.exp < Date.now()) {
+      return null;
+    }
+    return this.users.get(claims.sub) || null;
+  }
+
+  findByInviteCode(code) {
+    if (!code) {
+      return null;
+    }
+    const given = crypto.createHash('sha256').update(code).digest();
+    for (const user of this.users.values()) {
+      if (
+        user.inviteCode &&
+        crypto.timingSafeEqual(
+          given,
+          crypto.createHash('sha256').update(user.inviteCode).digest()
+        )
+      ) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Accepts a signed token or, as a fallback, an invite code
+   */
+  authenticate(credential) {
+    const user = this.verify(credential) || this.findByInviteCode(credential);
+    if (!user) {
+      throw new HttpError(401, 'Invalid or expired relay token');
+    }
+    return user;
+  }
+
+  exchangeInviteCode(code) {
+    const user = this.findByInviteCode(code);
+    if (!user) {
+      throw new HttpError(401, 'Unknown invite code');
+    }
+    return { user: user.id, ...this.sign(user.id) };
+  }
+
+  /**
+   * Credential from an "Authorization: Bearer" header
+   */
+  fromRequest(req) {
+    const header = req.headers.authorization || '';
+    return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  }
+
+  /**
+   * Credential from the WebSocket subprotocols offered by RealtimeClient
+   */
+  fromWebSocket(req) {
+    const protocol = (req.headers['sec-websocket-protocol'] || '')
+      .split(',')
+      .map((p) => p.trim())
+      .find((p) => p.startsWith(KEY_PROTOCOL_PREFIX));
+    return protocol ? protocol.slice(KEY_PROTOCOL_PREFIX.length) : '';
+  }
+}
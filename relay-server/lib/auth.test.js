@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RelayAuth } from './auth.js';
+
+const users = [
+  { id: 'alice', inviteCode: 'alice-code', maxMinutesPerDay: 30 },
+  { id: 'bob' },
+];
+
+const auth = (options) =>
+  new RelayAuth('secret', users, {
+    defaults: { maxConcurrentSessions: 2, maxMinutesPerDay: 60 },
+    ...options,
+  });
+
+test('needs a signing secret', () => {
+  assert.throws(() => new RelayAuth('', users), /signing secret/);
+});
+
+test('fills in limits from the defaults', () => {
+  const relayAuth = auth();
+  assert.equal(relayAuth.users.get('alice').maxMinutesPerDay, 30);
+  assert.equal(relayAuth.users.get('alice').maxConcurrentSessions, 2);
+  assert.equal(relayAuth.users.get('bob').maxMinutesPerDay, 60);
+});
+
+test('verifies the tokens it signs', () => {
+  const relayAuth = auth();
+  const { token, expiresAt } = relayAuth.sign('alice');
+  assert.equal(relayAuth.verify(token).id, 'alice');
+  assert.ok(new Date(expiresAt).valueOf() > Date.now());
+});
+
+test('rejects expired tokens', () => {
+  const relayAuth = auth();
+  assert.equal(relayAuth.verify(relayAuth.sign('alice', -1).token), null);
+});
+
+test('rejects tampered tokens and other secrets', () => {
+  const relayAuth = auth();
+  const { token } = relayAuth.sign('bob');
+  const [, signature] = token.split('.');
+  const forged = Buffer.from(
+    JSON.stringify({ sub: 'alice', exp: Date.now() + 60_000 })
+  ).toString('base64url');
+  assert.equal(relayAuth.verify(`${forged}.${signature}`), null);
+  assert.equal(new RelayAuth('other', users).verify(token), null);
+  assert.equal(relayAuth.verify('not-a-token'), null);
+  assert.equal(relayAuth.verify(''), null);
+});
+
+test('refuses to sign for unknown users', () => {
+  assert.throws(() => auth().sign('mallory'), /Unknown user/);
+});
+
+test('exchanges invite codes for tokens', () => {
+  const relayAuth = auth();
+  const { user, token } = relayAuth.exchangeInviteCode('alice-code');
+  assert.equal(user, 'alice');
+  assert.equal(relayAuth.authenticate(token).id, 'alice');
+  assert.throws(
+    () => relayAuth.exchangeInviteCode('wrong'),
+    (e) => e.status === 401
+  );
+});
+
+test('accepts an invite code in place of a token', () => {
+  assert.equal(auth().authenticate('alice-code').id, 'alice');
+  assert.throws(
+    () => auth().authenticate('nope'),
+    (e) => e.status === 401
+  );
+});
+
+test('reads credentials from headers and WebSocket subprotocols', () => {
+  const relayAuth = auth();
+  assert.equal(
+    relayAuth.fromRequest({ headers: { authorization: 'Bearer abc' } }),
+    'abc'
+  );
+  assert.equal(relayAuth.fromRequest({ headers: {} }), '');
+  assert.equal(
+    relayAuth.fromWebSocket({
+      headers: {
+        'sec-websocket-protocol':
+          'realtime, openai-insecure-api-key.abc, openai-beta.realtime-v1',
+      },
+    }),
+    'abc'
+  );
+});
@@ -0,0 +1,88 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+const QUESTION_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * A test case the browser only knows by id: { id, hidden: true }
+ */
+const isReference = (testCase) =>
+  !!testCase?.hidden &&
+  typeof testCase.id === 'string' &&
+  testCase.args === undefined;
+
+export function validateHiddenTests(data, source = 'hidden tests') {
+  if (!data || typeof data !== 'object' || !Array.isArray(data.testCases)) {
+    throw new Error(`Invalid ${source}: "testCases" must be an array`);
+  }
+  const issues = [];
+  data.testCases.forEach((testCase, i) => {
+    if (typeof testCase?.id !== 'string' || !testCase.id) {
+      issues.push(`"testCases[${i}].id" must be a non-empty string`);
+    }
+    if (!Array.isArray(testCase?.args)) {
+      issues.push(`"testCases[${i}].args" must be an array`);
+    }
+    if (!testCase || !('expected' in testCase)) {
+      issues.push(`"testCases[${i}].expected" is required`);
+    }
+  });
+  if (issues.length) {
+    throw new Error(`Invalid ${source}:\n- ${issues.join('\n- ')}`);
+  }
+  return data.testCases;
+}
+
+/**
+ * Inputs and expected outputs of hidden test cases, kept out of the
+ * browser bundle so candidates can't read them
+ * One JSON file per question, named after its id:
+ *   { "questionId": "two-sum",
+ *     "testCases": [{ "id": "hidden-1", "args": [...], "expected": ... }] }
+ */
+export class HiddenTestLibrary {
+  constructor(dir) {
+    this.dir = dir;
+  }
+
+  async load(questionId) {
+    if (!QUESTION_ID.test(questionId || '')) {
+      throw new Error(`Invalid question id: "${questionId}"`);
+    }
+    let text;
+    try {
+      text = await readFile(path.join(this.dir, `${questionId}.json`), 'utf8');
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+    return validateHiddenTests(JSON.parse(text), `"${questionId}.json"`);
+  }
+
+  /**
+   * Replaces the question's hidden case references with the cases
+   * themselves; other cases are passed through
+   */
+  async resolve(questionId, testCases) {
+    if (!Array.isArray(testCases) || !testCases.some(isReference)) {
+      return testCases;
+    }
+    const held = new Map(
+      (await this.load(questionId)).map((testCase) => [testCase.id, testCase])
+    );
+    return testCases.map((testCase) => {
+      if (!isReference(testCase)) {
+        return testCase;
+      }
+      const found = held.get(testCase.id);
+      if (!found) {
+        throw new Error(
+          `Hidden test case "${testCase.id}" of "${questionId}" is not on this relay`
+        );
+      }
+      return { ...found, name: testCase.name ?? found.name, hidden: true };
+    });
+  }
+}
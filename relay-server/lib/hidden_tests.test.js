@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { HiddenTestLibrary, validateHiddenTests } from './hidden_tests.js';
+
+const dir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'hidden_tests'
+);
+const library = new HiddenTestLibrary(dir);
+
+test('every bundled file is valid', async () => {
+  for (const file of await readdir(dir)) {
+    const data = JSON.parse(await readFile(path.join(dir, file), 'utf8'));
+    assert.equal(`${data.questionId}.json`, file);
+    validateHiddenTests(data, file);
+  }
+});
+
+test('replaces references with the cases held here', async () => {
+  const visible = { args: [[2, 7], 9], expected: [0, 1] };
+  const [first, second] = await library.resolve('two-sum', [
+    visible,
+    { id: 'hidden-1', name: 'Duplicates', hidden: true },
+  ]);
+  assert.equal(first, visible);
+  assert.deepEqual(second, {
+    id: 'hidden-1',
+    name: 'Duplicates',
+    args: [[3, 3], 6],
+    expected: [0, 1],
+    hidden: true,
+  });
+});
+
+test('passes cases through without references', async () => {
+  const testCases = [{ args: [1], expected: 1, hidden: true }];
+  assert.equal(await library.resolve('unknown', testCases), testCases);
+});
+
+test('rejects unknown references and question ids', async () => {
+  await assert.rejects(
+    library.resolve('two-sum', [{ id: 'hidden-99', hidden: true }]),
+    /is not on this relay/
+  );
+  await assert.rejects(
+    library.resolve('../two-sum', [{ id: 'hidden-1', hidden: true }]),
+    /Invalid question id/
+  );
+});
+
+test('lists every problem in a file', () => {
+  assert.throws(
+    () => validateHiddenTests({ testCases: [{ args: 1 }] }),
+    (e) =>
+      e.message.includes('"testCases[0].id" must be a non-empty string') &&
+      e.message.includes('"testCases[0].args" must be an array') &&
+      e.message.includes('"testCases[0].expected" is required')
+  );
+});
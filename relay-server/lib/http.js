@@ -0,0 +1,89 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Returned by a route handler to stream a file instead of sending JSON
+ */
+export class FileResponse {
+  constructor(filename, contentType) {
+    this.filename = filename;
+    this.contentType = contentType;
+  }
+}
+
+export function readBody(req, maxBytes = MAX_BODY_BYTES) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let length = 0;
+    req.on('data', (chunk) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export async function readJson(req, maxBytes = MAX_BODY_BYTES) {
+  const body = (await readBody(req, maxBytes)).toString('utf8');
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch (e) {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+export function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+export async function sendFile(res, { filename, contentType }) {
+  let size;
+  try {
+    size = (await stat(filename)).size;
+  } catch (e) {
+    if (e.code === 'ENOENT') {
+      throw new HttpError(404, 'File not found');
+    }
+    throw e;
+  }
+  res.writeHead(200, { 'Content-Type': contentType, 'Content-Length': size });
+  await new Promise((resolve, reject) => {
+    createReadStream(filename)
+      .on('error', reject)
+      .pipe(res)
+      .on('finish', resolve);
+  });
+}
+
+/**
+ * Whether a browser request may use the relay: requests without an Origin
+ * header come from scripts and the CLIs, not from web pages
+ */
+export function isAllowedOrigin(origin, allowedOrigins) {
+  return !origin || allowedOrigins.includes(origin);
+}
+
+export function setCorsHeaders(res, origin, allowedOrigins) {
+  res.setHeader('Vary', 'Origin');
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
@@ -0,0 +1,485 @@
+import { itemText, stepMatches } from './mock_scenario.js';
+
+const SAMPLE_RATE = 24000;
+const AUDIO_CHUNK_MS = 200;
+const SPEECH_MS_PER_CHAR = 60;
+const VAD_RMS_THRESHOLD = 0.02;
+
+const DEFAULT_SESSION = {
+  object: 'realtime.session',
+  model: 'mock-realtime',
+  modalities: ['text', 'audio'],
+  instructions: '',
+  voice: 'alloy',
+  input_audio_format: 'pcm16',
+  output_audio_format: 'pcm16',
+  input_audio_transcription: null,
+  turn_detection: {
+    type: 'server_vad',
+    threshold: 0.5,
+    prefix_padding_ms: 300,
+    silence_duration_ms: 500,
+  },
+  tools: [],
+  tool_choice: 'auto',
+  temperature: 0.8,
+  max_response_output_tokens: 'inf',
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Quiet tone standing in for speech, so audio visualizations move
+ */
+function toneChunk(samples, offset) {
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    pcm[i] = Math.round(
+      2000 * Math.sin((2 * Math.PI * 220 * (offset + i)) / SAMPLE_RATE)
+    );
+  }
+  return Buffer.from(pcm.buffer).toString('base64');
+}
+
+function rms(base64) {
+  const bytes = Buffer.from(base64, 'base64');
+  const pcm = new Int16Array(
+    bytes.buffer,
+    bytes.byteOffset,
+    Math.floor(bytes.byteLength / 2)
+  );
+  let sum = 0;
+  for (const sample of pcm) {
+    sum += (sample / 0x8000) ** 2;
+  }
+  return {
+    value: pcm.length ? Math.sqrt(sum / pcm.length) : 0,
+    samples: pcm.length,
+  };
+}
+
+/**
+ * One browser connection to the mock Realtime server
+ * Speaks the same event protocol as the OpenAI Realtime API, answering
+ * response requests from a scripted scenario instead of a model
+ */
+export class MockRealtimeSession {
+  constructor(ws, scenario, { chunkDelayMs = 20, log = () => {} } = {}) {
+    this.ws = ws;
+    this.scenario = scenario;
+    this.steps = scenario.steps.slice();
+    this.chunkDelayMs = chunkDelayMs;
+    this.log = log;
+    this.counter = 0;
+    this.session = {
+      ...DEFAULT_SESSION,
+      id: this.id('sess'),
+    };
+    this.items = [];
+    this.audioBuffer = [];
+    this.audioMs = 0;
+    this.speech = null;
+    this.response = null;
+  }
+
+  id(prefix) {
+    this.counter++;
+    return `${prefix}_mock${this.counter.toString().padStart(6, '0')}`;
+  }
+
+  send(type, payload = {}) {
+    if (this.ws.readyState !== this.ws.OPEN) {
+      return;
+    }
+    this.ws.send(
+      JSON.stringify({ event_id: this.id('event'), type, ...payload })
+    );
+  }
+
+  sendError(message, code = 'invalid_request_error', eventId = null) {
+    this.send('error', {
+      error: {
+        type: 'invalid_request_error',
+        code,
+        message,
+        event_id: eventId,
+      },
+    });
+  }
+
+  start() {
+    this.log(`Playing scenario "${this.scenario.name}"`);
+    this.send('session.created', { session: this.session });
+    this.ws.on('message', (data) => this.receive(data));
+    this.ws.on('close', () => this.cancelResponse());
+  }
+
+  receive(data) {
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch (e) {
+      this.sendError('Event must be valid JSON');
+      return;
+    }
+    this.handle(event).catch((e) => {
+      this.log(`Error handling "${event.type}": ${e.message}`);
+      this.sendError(e.message, 'server_error', event.event_id);
+    });
+  }
+
+  async handle(event) {
+    switch (event.type) {
+      case 'session.update':
+        this.session = { ...this.session, ...event.session };
+        this.send('session.updated', { session: this.session });
+        return;
+      case 'conversation.item.create':
+        this.addItem(
+          {
+            id: event.item?.id || this.id('item'),
+            object: 'realtime.item',
+            status: 'completed',
+            ...event.item,
+          },
+          event.previous_item_id
+        );
+        return;
+      case 'conversation.item.truncate':
+        this.send('conversation.item.truncated', {
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        return;
+      case 'conversation.item.delete':
+        this.items = this.items.filter((item) => item.id !== event.item_id);
+        this.send('conversation.item.deleted', { item_id: event.item_id });
+        return;
+      case 'input_audio_buffer.append':
+        this.appendAudio(event.audio || '');
+        return;
+      case 'input_audio_buffer.commit':
+        this.commitAudio();
+        return;
+      case 'input_audio_buffer.clear':
+        this.audioBuffer = [];
+        this.send('input_audio_buffer.cleared');
+        return;
+      case 'response.create':
+        await this.createResponse(event.response || {});
+        return;
+      case 'response.cancel':
+        this.cancelResponse();
+        return;
+      default:
+        this.sendError(
+          `Unknown event type "${event.type}"`,
+          'unknown_event',
+          event.event_id
+        );
+    }
+  }
+
+  addItem(item, previousItemId) {
+    const previous = this.items[this.items.length - 1];
+    this.items.push(item);
+    this.send('conversation.item.created', {
+      previous_item_id: previousItemId ?? previous?.id ?? null,
+      item,
+    });
+  }
+
+  /**
+   * Energy-based stand-in for server VAD
+   */
+  appendAudio(base64) {
+    this.audioBuffer.push(base64);
+    if (this.session.turn_detection?.type !== 'server_vad') {
+      return;
+    }
+    const { value, samples } = rms(base64);
+    this.audioMs += (samples / SAMPLE_RATE) * 1000;
+    if (value >= VAD_RMS_THRESHOLD) {
+      if (!this.speech) {
+        this.speech = { itemId: this.id('item'), startMs: this.audioMs };
+        this.cancelResponse();
+        this.send('input_audio_buffer.speech_started', {
+          audio_start_ms: Math.round(this.speech.startMs),
+          item_id: this.speech.itemId,
+        });
+      }
+      this.speech.lastSpeechMs = this.audioMs;
+    } else if (
+      this.speech &&
+      this.audioMs - this.speech.lastSpeechMs >=
+        (this.session.turn_detection.silence_duration_ms || 500)
+    ) {
+      const { itemId } = this.speech;
+      this.speech = null;
+      this.send('input_audio_buffer.speech_stopped', {
+        audio_end_ms: Math.round(this.audioMs),
+        item_id: itemId,
+      });
+      this.commitAudio(itemId);
+      this.createResponse({});
+    }
+  }
+
+  commitAudio(itemId = this.id('item')) {
+    const previous = this.items[this.items.length - 1];
+    this.audioBuffer = [];
+    this.send('input_audio_buffer.committed', {
+      previous_item_id: previous?.id ?? null,
+      item_id: itemId,
+    });
+    const index = this.steps.findIndex((step) => step.role === 'user');
+    const transcript =
+      index === -1
+        ? '(unscripted speech)'
+        : this.steps.splice(index, 1)[0].transcript;
+    this.addItem({
+      id: itemId,
+      object: 'realtime.item',
+      type: 'message',
+      status: 'completed',
+      role: 'user',
+      content: [{ type: 'input_audio', transcript: null }],
+    });
+    // Keep the transcript for step matching, as the real API would
+    this.items[this.items.length - 1].content[0].transcript = transcript;
+    if (this.session.input_audio_transcription) {
+      this.send('conversation.item.input_audio_transcription.completed', {
+        item_id: itemId,
+        content_index: 0,
+        transcript,
+      });
+    }
+  }
+
+  nextStep() {
+    const toolChoice = this.session.tool_choice?.name || null;
+    const context = { lastItem: this.items[this.items.length - 1], toolChoice };
+    const index = this.steps.findIndex(
+      (step) => step.role === 'assistant' && stepMatches(step, context)
+    );
+    if (index === -1) {
+      return { role: 'assistant', text: this.scenario.fallback };
+    }
+    return this.steps.splice(index, 1)[0];
+  }
+
+  cancelResponse() {
+    if (this.response) {
+      this.response.cancelled = true;
+    }
+  }
+
+  async createResponse(options) {
+    this.cancelResponse();
+    const step = this.nextStep();
+    const response = {
+      id: this.id('resp'),
+      object: 'realtime.response',
+      status: 'in_progress',
+      status_details: null,
+      output: [],
+      usage: null,
+    };
+    const state = { cancelled: false };
+    this.response = state;
+    this.log(`Responding with ${JSON.stringify(step.text || step.toolCalls)}`);
+    this.send('response.created', { response });
+
+    const modalities = options.modalities || this.session.modalities;
+    if (step.text) {
+      await this.streamMessage(
+        response,
+        step.text,
+        modalities.includes('audio'),
+        state
+      );
+    }
+    for (const call of step.toolCalls || []) {
+      if (state.cancelled) {
+        break;
+      }
+      await this.streamFunctionCall(response, call, state);
+    }
+
+    if (this.response === state) {
+      this.response = null;
+    }
+    response.status = state.cancelled ? 'cancelled' : 'completed';
+    response.status_details = state.cancelled
+      ? { type: 'cancelled', reason: 'client_cancelled' }
+      : null;
+    response.usage = {
+      total_tokens: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+    };
+    this.send('response.done', { response });
+  }
+
+  startOutputItem(response, item) {
+    const outputIndex = response.output.length;
+    response.output.push(item);
+    this.send('response.output_item.added', {
+      response_id: response.id,
+      output_index: outputIndex,
+      item,
+    });
+    this.addItem(item);
+    return {
+      response_id: response.id,
+      item_id: item.id,
+      output_index: outputIndex,
+    };
+  }
+
+  finishOutputItem(response, item, ids) {
+    item.status = 'completed';
+    this.send('response.output_item.done', {
+      response_id: response.id,
+      output_index: ids.output_index,
+      item,
+    });
+  }
+
+  async streamMessage(response, text, withAudio, state) {
+    const item = {
+      id: this.id('item'),
+      object: 'realtime.item',
+      type: 'message',
+      status: 'in_progress',
+      role: 'assistant',
+      content: [],
+    };
+    const ids = this.startOutputItem(response, item);
+    const part = withAudio
+      ? { type: 'audio', transcript: '' }
+      : { type: 'text', text: '' };
+    const partIds = { ...ids, content_index: 0 };
+    this.send('response.content_part.added', { ...partIds, part });
+
+    // Words are spread evenly over the audio chunks
+    const words = text.split(/(?<=\s)/);
+    const chunkCount = Math.max(
+      1,
+      Math.ceil((text.length * SPEECH_MS_PER_CHAR) / AUDIO_CHUNK_MS)
+    );
+    const samplesPerChunk = (SAMPLE_RATE * AUDIO_CHUNK_MS) / 1000;
+    let sent = '';
+    for (let chunk = 0; chunk < chunkCount && !state.cancelled; chunk++) {
+      const upTo = Math.ceil(((chunk + 1) / chunkCount) * words.length);
+      const delta = words
+        .slice(Math.ceil((chunk / chunkCount) * words.length), upTo)
+        .join('');
+      if (delta) {
+        sent += delta;
+        this.send(
+          withAudio ? 'response.audio_transcript.delta' : 'response.text.delta',
+          { ...partIds, delta }
+        );
+      }
+      if (withAudio) {
+        this.send('response.audio.delta', {
+          ...partIds,
+          delta: toneChunk(samplesPerChunk, chunk * samplesPerChunk),
+        });
+      }
+      if (this.chunkDelayMs) {
+        await sleep(this.chunkDelayMs);
+      }
+    }
+
+    if (withAudio) {
+      part.transcript = sent;
+      this.send('response.audio.done', partIds);
+      this.send('response.audio_transcript.done', {
+        ...partIds,
+        transcript: sent,
+      });
+    } else {
+      part.text = sent;
+      this.send('response.text.done', { ...partIds, text: sent });
+    }
+    this.send('response.content_part.done', { ...partIds, part });
+    item.content = [part];
+    this.finishOutputItem(response, item, ids);
+  }
+
+  async streamFunctionCall(response, call, state) {
+    const args = JSON.stringify(call.arguments || {});
+    const item = {
+      id: this.id('item'),
+      object: 'realtime.item',
+      type: 'function_call',
+      status: 'in_progress',
+      name: call.name,
+      call_id: this.id('call'),
+      arguments: '',
+    };
+    const ids = this.startOutputItem(response, item);
+    const callIds = { ...ids, call_id: item.call_id };
+    const chunkSize = Math.max(1, Math.ceil(args.length / 4));
+    for (let i = 0; i < args.length && !state.cancelled; i += chunkSize) {
+      this.send('response.function_call_arguments.delta', {
+        ...callIds,
+        delta: args.slice(i, i + chunkSize),
+      });
+      if (this.chunkDelayMs) {
+        await sleep(this.chunkDelayMs);
+      }
+    }
+    item.arguments = args;
+    this.send('response.function_call_arguments.done', {
+      ...callIds,
+      arguments: args,
+    });
+    this.finishOutputItem(response, item, ids);
+  }
+}
+
+/**
+ * Stand-in for the OpenAI Realtime API, for development without an API key
+ * and for end-to-end tests. Each connection plays a scenario: the default
+ * one, or the one named by a ?scenario= query parameter
+ */
+export class MockRealtime {
+  constructor(library, { scenario = 'interview', chunkDelayMs = 20 } = {}) {
+    this.library = library;
+    this.defaultScenario = scenario;
+    this.chunkDelayMs = chunkDelayMs;
+  }
+
+  async handleConnection(ws, url) {
+    const name = url.searchParams.get('scenario') || this.defaultScenario;
+    // Queue events sent while the scenario loads
+    const messageQueue = [];
+    const enqueue = (data) => messageQueue.push(data);
+    ws.on('message', enqueue);
+    let scenario;
+    try {
+      scenario = await this.library.load(name);
+    } catch (e) {
+      this.log(`Error loading scenario "${name}": ${e.message}`);
+      ws.close(1011, 'Scenario could not be loaded');
+      return;
+    }
+    ws.off('message', enqueue);
+    const session = new MockRealtimeSession(ws, scenario, {
+      chunkDelayMs: this.chunkDelayMs,
+      log: (...args) => this.log(`[${name}]`, ...args),
+    });
+    session.start();
+    while (messageQueue.length) {
+      session.receive(messageQueue.shift());
+    }
+  }
+
+  log(...args) {
+    console.log(`[MockRealtime]`, ...args);
+  }
+}
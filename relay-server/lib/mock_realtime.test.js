@@ -0,0 +1,225 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { MockRealtimeSession } from './mock_realtime.js';
+import { ScenarioLibrary } from './mock_scenario.js';
+
+const library = new ScenarioLibrary(
+  path.join(
+    path.dirname(fileURLToPath(import.meta.url)),
+    '..',
+    'fixtures',
+    'scenarios'
+  )
+);
+
+/**
+ * Stands in for the browser's WebSocket, keeping every event sent to it
+ */
+class FakeSocket {
+  OPEN = 1;
+  readyState = 1;
+  events = [];
+  waiters = [];
+
+  send(data) {
+    const event = JSON.parse(data);
+    this.events.push(event);
+    this.waiters = this.waiters.filter(({ type, resolve }) => {
+      if (event.type === type) {
+        resolve(event);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  on() {}
+
+  next(type) {
+    return new Promise((resolve) => this.waiters.push({ type, resolve }));
+  }
+
+  /**
+   * Events sent since the last call
+   */
+  take() {
+    return this.events.splice(0);
+  }
+}
+
+const connect = async (name) => {
+  const ws = new FakeSocket();
+  const session = new MockRealtimeSession(ws, await library.load(name), {
+    chunkDelayMs: 0,
+  });
+  session.start();
+  return { ws, session };
+};
+
+const userMessage = (text) => ({
+  type: 'conversation.item.create',
+  item: {
+    type: 'message',
+    role: 'user',
+    content: [{ type: 'input_text', text }],
+  },
+});
+
+const toolOutput = (output) => ({
+  type: 'conversation.item.create',
+  item: {
+    type: 'function_call_output',
+    call_id: 'call_1',
+    output: JSON.stringify(output),
+  },
+});
+
+const forceTool = (name) => ({
+  type: 'session.update',
+  session: { tool_choice: name ? { type: 'function', name } : 'auto' },
+});
+
+/**
+ * The function calls of a response, with their arguments parsed
+ */
+const toolCalls = (events) =>
+  events
+    .filter(
+      (e) =>
+        e.type === 'response.output_item.done' &&
+        e.item.type === 'function_call'
+    )
+    .map((e) => ({
+      name: e.item.name,
+      arguments: JSON.parse(e.item.arguments),
+    }));
+
+const transcript = (events) =>
+  events
+    .filter((e) => e.type === 'response.audio_transcript.done')
+    .map((e) => e.transcript)
+    .join(' ');
+
+/**
+ * 200ms of PCM16 at 24kHz, loud enough to count as speech or silent
+ */
+const audio = (loud) => {
+  const pcm = new Int16Array(4800).fill(loud ? 8000 : 0);
+  return Buffer.from(pcm.buffer).toString('base64');
+};
+
+test('plays the interview scenario with its tool calls', async () => {
+  const { ws, session } = await connect('interview');
+  assert.equal(ws.take()[0].type, 'session.created');
+
+  await session.handle({
+    type: 'session.update',
+    session: { input_audio_transcription: { model: 'whisper-1' } },
+  });
+  assert.equal(
+    ws.take()[0].session.input_audio_transcription.model,
+    'whisper-1'
+  );
+
+  await session.handle({ type: 'response.create' });
+  let events = ws.take();
+  assert.match(transcript(events), /Two Sum/);
+  assert.ok(events.some((e) => e.type === 'response.audio.delta'));
+  assert.deepEqual(toolCalls(events), [
+    { name: 'set_phase', arguments: { phase: 'clarification' } },
+  ]);
+  assert.equal(events.at(-1).response.status, 'completed');
+
+  await session.handle(toolOutput({ ok: true, minutesLeft: 40 }));
+  await session.handle({ type: 'response.create' });
+  assert.match(transcript(ws.take()), /clarifying questions/);
+
+  // Speech, then enough silence to end the turn
+  const done = ws.next('response.done');
+  session.appendAudio(audio(true));
+  for (let i = 0; i < 4; i++) {
+    session.appendAudio(audio(false));
+  }
+  await done;
+  events = ws.take();
+  const types = events.map((e) => e.type);
+  assert.ok(
+    types.indexOf('input_audio_buffer.speech_started') <
+      types.indexOf('input_audio_buffer.speech_stopped')
+  );
+  assert.equal(
+    events.find(
+      (e) => e.type === 'conversation.item.input_audio_transcription.completed'
+    ).transcript,
+    'Can I assume there is exactly one valid answer?'
+  );
+  assert.deepEqual(toolCalls(events), [
+    { name: 'set_phase', arguments: { phase: 'coding' } },
+  ]);
+
+  await session.handle(userMessage("I'm submitting this now."));
+  await session.handle({ type: 'response.create' });
+  assert.deepEqual(toolCalls(ws.take()), [
+    { name: 'run_tests', arguments: {} },
+  ]);
+
+  await session.handle(toolOutput({ summary: '3/3 test cases passed' }));
+  await session.handle({ type: 'response.create' });
+  assert.match(transcript(ws.take()), /test results/);
+
+  await session.handle(forceTool('submit_evaluation'));
+  await session.handle({ type: 'response.create' });
+  const [evaluation] = toolCalls(ws.take());
+  assert.equal(evaluation.name, 'submit_evaluation');
+  assert.deepEqual(Object.keys(evaluation.arguments), [
+    'problemSolving',
+    'communication',
+    'codeQuality',
+    'timeManagement',
+    'summary',
+  ]);
+  assert.equal(evaluation.arguments.problemSolving.score, 4);
+});
+
+test('answers a forced tool call only with steps scripted for it', async () => {
+  const { ws, session } = await connect('evaluation_retry');
+  await session.handle({ type: 'response.create' });
+  assert.match(transcript(ws.take()), /Sarah/);
+
+  await session.handle(forceTool('submit_evaluation'));
+  await session.handle({ type: 'response.create' });
+  const [invalid] = toolCalls(ws.take());
+  assert.equal(invalid.arguments.problemSolving.score, 9);
+  assert.equal(invalid.arguments.summary, undefined);
+
+  // The client answers with the validation errors and asks again
+  await session.handle(
+    toolOutput({
+      ok: false,
+      errors: ['"problemSolving.score" must be an integer from 0 to 5'],
+    })
+  );
+  await session.handle({ type: 'response.create' });
+  const [corrected] = toolCalls(ws.take());
+  assert.equal(corrected.name, 'submit_evaluation');
+  assert.equal(corrected.arguments.problemSolving.score, 3);
+  assert.match(corrected.arguments.summary, /second attempt/);
+
+  await session.handle(forceTool(null));
+  await session.handle(toolOutput({ ok: true }));
+  await session.handle({ type: 'response.create' });
+  assert.equal(transcript(ws.take()), "Okay, let's continue.");
+});
+
+test('answers unscripted requests with the fallback', async () => {
+  const { ws, session } = await connect('evaluation_retry');
+  await session.handle({ type: 'response.create' });
+  ws.take();
+  await session.handle({ type: 'response.create' });
+  assert.equal(
+    transcript(ws.take()),
+    'This mock scenario has nothing more scripted.'
+  );
+});
@@ -0,0 +1,123 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+
+const SCENARIO_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Scripted conversations for the mock Realtime server
+ *
+ * A scenario is a list of steps, consumed in order:
+ * - { "role": "assistant", "text", "toolCalls", "when" } is played when a
+ *   response is requested and its optional "when" conditions match
+ * - { "role": "user", "transcript" } is the transcript of the next
+ *   utterance committed from the microphone
+ */
+export function validateScenario(data, source = 'scenario') {
+  const issues = [];
+  if (!data || typeof data !== 'object' || !Array.isArray(data.steps)) {
+    throw new Error(`Invalid scenario "${source}": "steps" must be an array`);
+  }
+  data.steps.forEach((step, i) => {
+    const at = `"steps[${i}]`;
+    if (step?.role === 'user') {
+      if (typeof step.transcript !== 'string') {
+        issues.push(`${at}.transcript" must be a string`);
+      }
+      return;
+    }
+    if (step?.role !== 'assistant') {
+      issues.push(`${at}.role" must be "assistant" or "user"`);
+      return;
+    }
+    if (step.text !== undefined && typeof step.text !== 'string') {
+      issues.push(`${at}.text" must be a string`);
+    }
+    if (step.toolCalls !== undefined) {
+      if (!Array.isArray(step.toolCalls)) {
+        issues.push(`${at}.toolCalls" must be an array`);
+      } else {
+        step.toolCalls.forEach((call, j) => {
+          if (typeof call?.name !== 'string') {
+            issues.push(`${at}.toolCalls[${j}].name" must be a string`);
+          }
+        });
+      }
+    }
+    if (!step.text && !step.toolCalls?.length) {
+      issues.push(`${at}" needs "text" or "toolCalls"`);
+    }
+  });
+  if (issues.length) {
+    throw new Error(`Invalid scenario "${source}":\n- ${issues.join('\n- ')}`);
+  }
+  return {
+    name: data.name || source,
+    description: data.description || '',
+    fallback: data.fallback || 'This mock scenario has nothing more scripted.',
+    steps: data.steps,
+  };
+}
+
+/**
+ * Whether an assistant step may answer the current response request
+ * - lastItemRole / lastItemType: the newest conversation item
+ * - contains: text in the newest conversation item
+ * - toolChoice: the function name the client forced with tool_choice;
+ *   while one is forced, only steps naming it match
+ */
+export function stepMatches(step, { lastItem, toolChoice }) {
+  const when = step.when || {};
+  // A forced tool call is only answered by steps scripted for it
+  if ((when.toolChoice || null) !== toolChoice) {
+    return false;
+  }
+  if (when.lastItemRole && lastItem?.role !== when.lastItemRole) {
+    return false;
+  }
+  if (when.lastItemType && lastItem?.type !== when.lastItemType) {
+    return false;
+  }
+  if (
+    when.contains &&
+    !itemText(lastItem).toLowerCase().includes(when.contains.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function itemText(item) {
+  if (!item) {
+    return '';
+  }
+  if (item.type === 'function_call_output') {
+    return item.output || '';
+  }
+  return (item.content || [])
+    .map((part) => part.text || part.transcript || '')
+    .join(' ');
+}
+
+/**
+ * Loads scenarios from a directory of JSON files, named after the file
+ */
+export class ScenarioLibrary {
+  constructor(dir) {
+    this.dir = dir;
+  }
+
+  async load(name) {
+    if (!SCENARIO_NAME.test(name || '')) {
+      throw new Error(`Invalid scenario name: "${name}"`);
+    }
+    const filename = path.join(this.dir, `${name}.json`);
+    return validateScenario(JSON.parse(await readFile(filename, 'utf8')), name);
+  }
+
+  async list() {
+    const files = await readdir(this.dir);
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  }
+}
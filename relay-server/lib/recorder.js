@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { createWriteStream, mkdirSync, writeFileSync } from 'fs';
+import { open, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+const RECORDING_ID = /^[A-Za-z0-9_-]{1,128}$/;
+// An unfinished recording younger than this may belong to another relay
+// process, e.g. when the CLI runs; older ones were cut short by a crash
+const MAX_RECORDING_MS = 24 * 60 * 60_000;
+const WAV_HEADER_BYTES = 44;
+
+// Realtime audio is PCM16 mono at 24kHz, in both directions
+const SAMPLE_RATE = 24000;
+const CHANNELS = 1;
+const BITS_PER_SAMPLE = 16;
+
+// Events whose base64 audio goes to a WAV track instead of the event log
+const AUDIO_FIELDS = {
+  client: { 'input_audio_buffer.append': ['audio', 'input'] },
+  server: { 'response.audio.delta': ['delta', 'output'] },
+};
+
+export const AUDIO_TRACKS = ['input', 'output'];
+
+export const RECORDING_FILES = [
+  'meta.json',
+  'events.jsonl',
+  ...AUDIO_TRACKS.map((track) => `${track}.wav`),
+];
+
+/**
+ * Same layout as WavPacker.pack() in the browser's wavtools
+ */
+export function wavHeader(dataBytes) {
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(CHANNELS, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE((SAMPLE_RATE * CHANNELS * BITS_PER_SAMPLE) / 8, 28);
+  header.writeUInt16LE((CHANNELS * BITS_PER_SAMPLE) / 8, 32);
+  header.writeUInt16LE(BITS_PER_SAMPLE, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+const endStream = (stream) =>
+  new Promise((resolve, reject) => {
+    stream.on('error', reject);
+    stream.end(resolve);
+  });
+
+/**
+ * A WAV file written as audio arrives
+ * The header's sizes are filled in when the track is closed
+ */
+class AudioTrack {
+  constructor(filename, { onError }) {
+    this.filename = filename;
+    this.bytes = 0;
+    this.stream = createWriteStream(filename);
+    this.stream.on('error', onError);
+    this.stream.write(wavHeader(0));
+  }
+
+  /**
+   * Appends base64 PCM16 audio, returning where it landed in samples
+   */
+  append(base64) {
+    const data = Buffer.from(base64, 'base64');
+    const offset = this.bytes / 2;
+    this.stream.write(data);
+    this.bytes += data.length;
+    return { offset, samples: data.length / 2 };
+  }
+
+  async close() {
+    await endStream(this.stream);
+    const file = await open(this.filename, 'r+');
+    try {
+      const header = wavHeader(this.bytes);
+      await file.write(header, 0, header.length, 0);
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+/**
+ * One relayed session: every event in both directions, appended to
+ * events.jsonl with a timestamp, and the audio as input.wav and output.wav
+ *
+ * Each line is { time, source: "client" | "server", event, audio? }, where
+ * audio is { track, offset, samples } for events whose payload was moved
+ * to a WAV file
+ *
+ * A write error, e.g. a full disk, stops the recording but not the session;
+ * meta.json then has the error
+ */
+export class Recording {
+  constructor(dir, meta, { onClose = () => {}, log = () => {} } = {}) {
+    this.dir = dir;
+    this.meta = meta;
+    this.onClose = onClose;
+    this.log = log;
+    this.error = null;
+    const onError = (e) => this.fail(e);
+    this.events = createWriteStream(path.join(dir, 'events.jsonl'), {
+      flags: 'a',
+    });
+    this.events.on('error', onError);
+    this.tracks = Object.fromEntries(
+      AUDIO_TRACKS.map((track) => [
+        track,
+        new AudioTrack(path.join(dir, `${track}.wav`), { onError }),
+      ])
+    );
+    this.closed = null;
+  }
+
+  fail(e) {
+    if (this.error) {
+      return;
+    }
+    this.error = e;
+    this.log(`Recording "${this.meta.id}" stopped: ${e.message}`);
+    this.events.destroy();
+    for (const track of Object.values(this.tracks)) {
+      track.stream.destroy();
+    }
+  }
+
+  record(source, event) {
+    if (this.closed || this.error) {
+      return;
+    }
+    const line = { time: new Date().toISOString(), source, event };
+    const [field, track] = AUDIO_FIELDS[source]?.[event.type] || [];
+    if (track && typeof event[field] === 'string') {
+      line.audio = { track, ...this.tracks[track].append(event[field]) };
+      line.event = { ...event, [field]: `[audio in ${track}.wav]` };
+    }
+    this.meta.eventCounts[source] = (this.meta.eventCounts[source] || 0) + 1;
+    this.events.write(JSON.stringify(line) + '\n');
+  }
+
+  /**
+   * Records everything sent over a browser WebSocket, whichever upstream
+   * (OpenAI or the mock) ends up handling it
+   */
+  attach(ws) {
+    ws.on('message', (data) => {
+      try {
+        this.record('client', JSON.parse(data));
+      } catch (e) {
+        // Unparseable messages are logged by the relay itself
+      }
+    });
+    const send = ws.send.bind(ws);
+    ws.send = (data, ...args) => {
+      try {
+        this.record('server', JSON.parse(data));
+      } catch (e) {
+        // Only JSON events are recorded
+      }
+      return send(data, ...args);
+    };
+    ws.on('close', () =>
+      this.close().catch((e) =>
+        console.error(`Error closing recording: ${e.message}`)
+      )
+    );
+  }
+
+  close() {
+    if (!this.closed) {
+      this.closed = (async () => {
+        if (!this.error) {
+          await endStream(this.events);
+          await Promise.all(
+            Object.values(this.tracks).map((track) => track.close())
+          );
+        }
+        this.meta.endedAt = new Date().toISOString();
+        this.meta.error = this.error?.message ?? null;
+        this.meta.audioSeconds = Object.fromEntries(
+          Object.entries(this.tracks).map(([name, track]) => [
+            name,
+            track.bytes / 2 / SAMPLE_RATE,
+          ])
+        );
+        await writeFile(
+          path.join(this.dir, 'meta.json'),
+          JSON.stringify(this.meta, null, 2)
+        );
+      })().finally(() => this.onClose());
+    }
+    return this.closed;
+  }
+}
+
+/**
+ * Recorded sessions, one directory each:
+ *   <dir>/<id>/meta.json, events.jsonl, input.wav, output.wav
+ */
+export class SessionRecorder {
+  constructor(dir, { log = () => {} } = {}) {
+    this.dir = dir;
+    this.log = log;
+    this.active = new Set();
+  }
+
+  recordingDir(id) {
+    if (!RECORDING_ID.test(id || '')) {
+      throw new Error(`Invalid recording id: "${id}"`);
+    }
+    return path.join(this.dir, id);
+  }
+
+  /**
+   * Synchronous, so the browser's first events can't arrive before the
+   * recording is attached
+   */
+  start({ user = null, upstream }) {
+    const startedAt = new Date().toISOString();
+    const id = `${startedAt.replace(/[:.]/g, '-')}-${crypto
+      .randomBytes(3)
+      .toString('hex')}`;
+    const dir = this.recordingDir(id);
+    mkdirSync(dir, { recursive: true });
+    const meta = {
+      id,
+      user,
+      upstream,
+      startedAt,
+      endedAt: null,
+      sampleRate: SAMPLE_RATE,
+      eventCounts: {},
+      audioSeconds: null,
+      error: null,
+    };
+    // Written up front so recordings cut short by a crash still list
+    writeFileSync(path.join(dir, 'meta.json'), JSON.stringify(meta, null, 2));
+    this.log(`Recording session "${id}"`);
+    this.active.add(id);
+    return new Recording(dir, meta, {
+      onClose: () => this.active.delete(id),
+      log: this.log,
+    });
+  }
+
+  async get(id) {
+    try {
+      return JSON.parse(
+        await readFile(path.join(this.recordingDir(id), 'meta.json'), 'utf8')
+      );
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Metadata of every recording, newest first
+   */
+  async list({ user } = {}) {
+    let entries;
+    try {
+      entries = await readdir(this.dir, { withFileTypes: true });
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+    const recordings = [];
+    for (const entry of entries.filter((e) => e.isDirectory())) {
+      const meta = await this.get(entry.name).catch(() => null);
+      if (meta && (user === undefined || meta.user === user)) {
+        recordings.push(meta);
+      }
+    }
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Path of one of a recording's files, for streaming it out
+   */
+  file(id, name) {
+    if (!RECORDING_FILES.includes(name)) {
+      throw new Error(`Unknown recording file: "${name}"`);
+    }
+    return path.join(this.recordingDir(id), name);
+  }
+
+  /**
+   * Whether a recording may still be being written
+   */
+  isRecording(meta) {
+    return (
+      this.active.has(meta.id) ||
+      (!meta.endedAt &&
+        Date.now() - new Date(meta.startedAt).valueOf() < MAX_RECORDING_MS)
+    );
+  }
+
+  async remove(id) {
+    await rm(this.recordingDir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * Deletes recordings that started before the cutoff, except ones still
+   * being written. Returns the ids removed
+   */
+  async prune({ olderThanMs }) {
+    const cutoff = Date.now() - olderThanMs;
+    const removed = [];
+    for (const meta of await this.list()) {
+      if (
+        !this.isRecording(meta) &&
+        new Date(meta.startedAt).valueOf() < cutoff
+      ) {
+        await this.remove(meta.id);
+        removed.push(meta.id);
+      }
+    }
+    if (removed.length) {
+      this.log(`Pruned ${removed.length} recording(s)`);
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Recording, SessionRecorder } from './recorder.js';
+
+const withRecorder = async (fn) => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'recorder-test-'));
+  try {
+    const logs = [];
+    await fn(new SessionRecorder(dir, { log: (line) => logs.push(line) }), {
+      logs,
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+test('records events and audio until closed', async () => {
+  await withRecorder(async (recorder) => {
+    const recording = recorder.start({ upstream: 'mock' });
+    const { id } = recording.meta;
+    assert.equal(recorder.isRecording(await recorder.get(id)), true);
+    recording.record('client', {
+      type: 'input_audio_buffer.append',
+      audio: Buffer.alloc(8).toString('base64'),
+    });
+    recording.record('server', { type: 'response.done' });
+    await recording.close();
+
+    const meta = await recorder.get(id);
+    assert.deepEqual(meta.eventCounts, { client: 1, server: 1 });
+    assert.equal(meta.error, null);
+    assert.equal(recorder.isRecording(meta), false);
+    const lines = (await readFile(recorder.file(id, 'events.jsonl'), 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    assert.deepEqual(lines[0].audio, { track: 'input', offset: 0, samples: 4 });
+    const wav = await readFile(recorder.file(id, 'input.wav'));
+    assert.equal(wav.readUInt32LE(40), 8);
+  });
+});
+
+test('stops recording on a write error without throwing', async () => {
+  await withRecorder(async (recorder, { logs }) => {
+    const dir = recorder.recordingDir('broken');
+    // events.jsonl can't be opened when it's a directory
+    await mkdir(path.join(dir, 'events.jsonl'), { recursive: true });
+    const recording = new Recording(
+      dir,
+      { id: 'broken', eventCounts: {} },
+      { log: recorder.log }
+    );
+    await new Promise((resolve) => recording.events.on('error', resolve));
+    recording.record('server', { type: 'response.done' });
+    await recording.close();
+
+    const meta = await recorder.get('broken');
+    assert.match(meta.error, /EISDIR/);
+    assert.deepEqual(meta.eventCounts, {});
+    assert.match(logs.join('\n'), /"broken" stopped: .*EISDIR/);
+  });
+});
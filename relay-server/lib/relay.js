@@ -1,19 +1,419 @@
+import http from 'http';
 import { WebSocketServer } from 'ws';
 import { RealtimeClient } from '@openai/realtime-api-beta';
+import {
+  FileResponse,
+  HttpError,
+  isAllowedOrigin,
+  readBody,
+  readJson,
+  sendFile,
+  sendJson,
+  setCorsHeaders,
+} from './http.js';
+import { TestHarness } from './test_harness.js';
 
 export class RealtimeRelay {
-  constructor(apiKey) {
+  constructor(
+    apiKey,
+    {
+      runner = null,
+      archive = null,
+      mock = null,
+      auth = null,
+      usage = null,
+      recorder = null,
+      allowedOrigins = [],
+      hiddenTests = null,
+    } = {}
+  ) {
+    if (runner && !auth) {
+      // Anyone who can reach the relay could run code on it
+      throw new Error('The code runner needs relay auth');
+    }
     this.apiKey = apiKey;
+    this.runner = runner;
+    this.archive = archive;
+    this.mock = mock;
+    this.auth = auth;
+    this.usage = usage;
+    this.recorder = recorder;
+    this.allowedOrigins = allowedOrigins;
+    this.hiddenTests = hiddenTests;
+    this.harness = runner ? new TestHarness(runner) : null;
     this.sockets = new WeakMap();
+    this.routes = new Map();
+    this.server = null;
     this.wss = null;
+    this.route('POST', '/run', this.runHandler.bind(this));
+    this.route('POST', '/run-tests', this.runTestsHandler.bind(this));
+    this.route('POST', '/sessions', this.saveSessionHandler.bind(this));
+    this.route('GET', '/sessions', this.getSessionsHandler.bind(this));
+    this.route('POST', '/sessions/audio', this.saveAudioHandler.bind(this));
+    this.route('GET', '/sessions/audio', this.getAudioHandler.bind(this));
+    this.route('GET', '/recordings', this.getRecordingsHandler.bind(this));
+    this.route('GET', '/recordings/file', this.recordingFileHandler.bind(this));
+    this.route('DELETE', '/recordings', this.deleteRecordingHandler.bind(this));
+    this.route('GET', '/auth', this.authStatusHandler.bind(this), {
+      isPublic: true,
+    });
+    this.route('POST', '/auth/token', this.tokenHandler.bind(this), {
+      isPublic: true,
+    });
   }
 
   listen(port) {
-    this.wss = new WebSocketServer({ port });
+    this.server = http.createServer(this.requestHandler.bind(this));
+    this.wss = new WebSocketServer({ server: this.server });
     this.wss.on('connection', this.connectionHandler.bind(this));
+    this.server.listen(port);
     this.log(`Listening on ws://localhost:${port}`);
   }
 
+  /**
+   * Routes require a relay token when auth is enabled, unless isPublic
+   */
+  route(method, pathname, handler, { isPublic = false } = {}) {
+    this.routes.set(`${method} ${pathname}`, { handler, isPublic });
+  }
+
+  async requestHandler(req, res) {
+    const { origin } = req.headers;
+    setCorsHeaders(res, origin, this.allowedOrigins);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const route = this.routes.get(`${req.method} ${url.pathname}`);
+    try {
+      // CORS only hides responses; this stops other sites' requests running
+      if (!isAllowedOrigin(origin, this.allowedOrigins)) {
+        throw new HttpError(403, `Origin not allowed: ${origin}`);
+      }
+      if (!route) {
+        throw new HttpError(404, `Not found: ${req.method} ${url.pathname}`);
+      }
+      if (this.auth && !route.isPublic) {
+        req.user = this.auth.authenticate(this.auth.fromRequest(req));
+      }
+      const result = await route.handler(req, url);
+      if (result instanceof FileResponse) {
+        await sendFile(res, result);
+      } else {
+        sendJson(res, 200, result);
+      }
+    } catch (e) {
+      if (!(e instanceof HttpError)) {
+        this.log(`Error handling ${req.method} ${url.pathname}: ${e.message}`);
+      }
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      sendJson(res, e.status || 500, { error: e.message });
+    }
+  }
+
+  async runHandler(req) {
+    if (!this.runner) {
+      throw new HttpError(501, 'Code execution is disabled on this relay');
+    }
+    const { language, code, stdin } = await readJson(req);
+    if (!this.runner.supports(language)) {
+      throw new HttpError(400, this.runner.unsupportedReason(language));
+    }
+    this.log(`Running ${language} code (${code?.length || 0} chars)`);
+    return this.metered(req, 'run', () =>
+      this.runner.run({ language, code, stdin })
+    );
+  }
+
+  async runTestsHandler(req) {
+    if (!this.harness) {
+      throw new HttpError(501, 'Code execution is disabled on this relay');
+    }
+    const { language, code, entryPoint, questionId, testCases } =
+      await readJson(req);
+    if (!this.harness.supports(language)) {
+      throw new HttpError(400, this.runner.unsupportedReason(language));
+    }
+    this.log(`Running ${testCases?.length || 0} ${language} test cases`);
+    let resolved;
+    try {
+      resolved = this.hiddenTests
+        ? await this.hiddenTests.resolve(questionId, testCases)
+        : testCases;
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+    return this.metered(req, 'tests', async () => {
+      try {
+        return await this.harness.run({
+          language,
+          code,
+          entryPoint,
+          testCases: resolved,
+        });
+      } catch (e) {
+        throw new HttpError(400, e.message);
+      }
+    });
+  }
+
+  /**
+   * Code runs count toward the user's daily minutes, like sessions
+   * Each reserves its timeout up front; test runs can take two, since
+   * hidden cases run separately
+   */
+  metered(req, kind, run) {
+    const reserveMs = this.runner.timeoutMs * (kind === 'tests' ? 2 : 1);
+    return this.usage && req.user
+      ? this.usage.meter(req.user, kind, run, { reserveMs })
+      : run();
+  }
+
+  /**
+   * Archived sessions are only visible to the user who saved them when
+   * auth is enabled, like recordings
+   */
+  async findArchivedSession(req, id) {
+    if (!this.archive) {
+      throw new HttpError(501, 'Session archiving is disabled on this relay');
+    }
+    let session;
+    try {
+      session = await this.archive.get(id);
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+    if (!session || (req.user && session.owner !== req.user.id)) {
+      throw new HttpError(404, `Session "${id}" not found`);
+    }
+    return session;
+  }
+
+  async saveSessionHandler(req) {
+    if (!this.archive) {
+      throw new HttpError(501, 'Session archiving is disabled on this relay');
+    }
+    const session = await readJson(req, 100 * 1024 * 1024);
+    let existing;
+    try {
+      existing = await this.archive.get(session?.id);
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+    // Someone else's session is not found, rather than overwritten
+    if (existing && req.user && existing.owner !== req.user.id) {
+      throw new HttpError(404, `Session "${session.id}" not found`);
+    }
+    await this.archive.save({ ...session, owner: req.user?.id || null });
+    this.log(`Saved session "${session.id}"`);
+    return { ok: true };
+  }
+
+  /**
+   * Stores an item's audio, sent as raw PCM16 after its session:
+   * ?id=<session id>&item=<item id>
+   */
+  async saveAudioHandler(req, url) {
+    const { id } = await this.findArchivedSession(
+      req,
+      url.searchParams.get('id')
+    );
+    const pcm = await readBody(req, 100 * 1024 * 1024);
+    try {
+      await this.archive.saveAudio(id, url.searchParams.get('item'), pcm);
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+    return { ok: true };
+  }
+
+  /**
+   * An item's audio as WAV, or the ids of the items with audio without ?item=
+   */
+  async getAudioHandler(req, url) {
+    const { id } = await this.findArchivedSession(
+      req,
+      url.searchParams.get('id')
+    );
+    if (!url.searchParams.has('item')) {
+      return { items: await this.archive.listAudio(id) };
+    }
+    try {
+      return new FileResponse(
+        this.archive.audioFilename(id, url.searchParams.get('item')),
+        'audio/wav'
+      );
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+  }
+
+  /**
+   * Lists archived sessions, or returns a single one with ?id=
+   */
+  async getSessionsHandler(req, url) {
+    if (!this.archive) {
+      throw new HttpError(501, 'Session archiving is disabled on this relay');
+    }
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return {
+        sessions: await this.archive.list(
+          req.user ? { owner: req.user.id } : {}
+        ),
+      };
+    }
+    return this.findArchivedSession(req, id);
+  }
+
+  /**
+   * Recordings hold candidates' voices, so they are only served to signed-in
+   * users, each seeing their own; the recordings CLI sees all of them
+   */
+  checkRecordingAccess() {
+    if (!this.recorder) {
+      throw new HttpError(501, 'Session recording is disabled on this relay');
+    }
+    if (!this.auth) {
+      throw new HttpError(
+        403,
+        'Recordings are only served with relay auth; use the recordings CLI'
+      );
+    }
+  }
+
+  async findRecording(req, id) {
+    this.checkRecordingAccess();
+    let recording;
+    try {
+      recording = await this.recorder.get(id);
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+    if (!recording || recording.user !== req.user.id) {
+      throw new HttpError(404, `Recording "${id}" not found`);
+    }
+    return recording;
+  }
+
+  /**
+   * Lists recordings, or returns one's metadata with ?id=
+   */
+  async getRecordingsHandler(req, url) {
+    this.checkRecordingAccess();
+    const id = url.searchParams.get('id');
+    if (id) {
+      return this.findRecording(req, id);
+    }
+    return { recordings: await this.recorder.list({ user: req.user.id }) };
+  }
+
+  /**
+   * Streams one of a recording's files:
+   * ?id=...&file=events.jsonl | input.wav | output.wav | meta.json
+   * Not while it's still being written, as the files are still growing
+   */
+  async recordingFileHandler(req, url) {
+    const recording = await this.findRecording(req, url.searchParams.get('id'));
+    const { id } = recording;
+    if (this.recorder.isRecording(recording)) {
+      throw new HttpError(409, `Recording "${id}" is still in progress`);
+    }
+    const name = url.searchParams.get('file') || 'events.jsonl';
+    try {
+      return new FileResponse(
+        this.recorder.file(id, name),
+        name.endsWith('.wav')
+          ? 'audio/wav'
+          : name.endsWith('.jsonl')
+          ? 'application/x-ndjson'
+          : 'application/json'
+      );
+    } catch (e) {
+      throw new HttpError(400, e.message);
+    }
+  }
+
+  async deleteRecordingHandler(req, url) {
+    const recording = await this.findRecording(req, url.searchParams.get('id'));
+    const { id } = recording;
+    if (this.recorder.isRecording(recording)) {
+      throw new HttpError(409, `Recording "${id}" is still in progress`);
+    }
+    await this.recorder.remove(id);
+    this.log(`Deleted recording "${id}"`);
+    return { ok: true };
+  }
+
+  /**
+   * Whether the relay needs a token, and the caller's usage if they sent one
+   */
+  async authStatusHandler(req) {
+    if (!this.auth) {
+      return { required: false };
+    }
+    const credential = this.auth.fromRequest(req);
+    if (!credential) {
+      return { required: true };
+    }
+    return {
+      required: true,
+      ...this.usage.status(this.auth.authenticate(credential)),
+    };
+  }
+
+  /**
+   * Exchanges an invite code for a signed session token
+   */
+  async tokenHandler(req) {
+    if (!this.auth) {
+      throw new HttpError(501, 'Authentication is disabled on this relay');
+    }
+    const { inviteCode } = await readJson(req);
+    const token = this.auth.exchangeInviteCode(inviteCode);
+    this.log(`Issued a token for "${token.user}"`);
+    return token;
+  }
+
+  /**
+   * Checks the token and the user's limits, and meters the session
+   * Rejections are sent as a Realtime "error" event before closing, so
+   * the browser can show why
+   */
+  authorizeConnection(ws, req) {
+    if (!this.auth) {
+      return true;
+    }
+    const reject = (e) => {
+      this.log(`Rejected connection: ${e.message}`);
+      ws.send(
+        JSON.stringify({
+          type: 'error',
+          error: { type: 'relay_error', code: e.status, message: e.message },
+        })
+      );
+      ws.close(4000 + (e.status || 500), e.message);
+    };
+    try {
+      const user = this.auth.authenticate(this.auth.fromWebSocket(req));
+      const end = this.usage.start(user, {
+        onLimit: (message) => reject(new HttpError(429, message)),
+      });
+      ws.on('close', end);
+      req.user = user;
+      this.log(`Authenticated "${user.id}"`);
+      return true;
+    } catch (e) {
+      reject(e);
+      return false;
+    }
+  }
+
   async connectionHandler(ws, req) {
     if (!req.url) {
       this.log('No URL provided, closing connection.');
@@ -30,6 +430,38 @@ export class RealtimeRelay {
       return;
     }
 
+    // WebSockets aren't covered by CORS, so other sites could otherwise
+    // open sessions on our API key
+    if (!isAllowedOrigin(req.headers.origin, this.allowedOrigins)) {
+      this.log(`Origin not allowed: ${req.headers.origin}`);
+      ws.close(4403, 'Origin not allowed');
+      return;
+    }
+
+    if (!this.authorizeConnection(ws, req)) {
+      return;
+    }
+
+    if (this.recorder) {
+      try {
+        this.recorder
+          .start({
+            user: req.user?.id || null,
+            upstream: this.mock ? 'mock' : 'openai',
+          })
+          .attach(ws);
+      } catch (e) {
+        this.log(`Error starting recording: ${e.message}`);
+      }
+    }
+
+    // Scripted stand-in for OpenAI, see MockRealtime
+    if (this.mock) {
+      this.log('Connecting to the mock Realtime server');
+      await this.mock.handleConnection(ws, url);
+      return;
+    }
+
     // Instantiate new client
     this.log(`Connecting with key "${this.apiKey.slice(0, 3)}..."`);
     const client = new RealtimeClient({ apiKey: this.apiKey });
@@ -0,0 +1,246 @@
+import { spawn } from 'child_process';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+
+const MAX_OUTPUT_BYTES = 64 * 1024;
+
+// Sets address-space, process and file-size limits before handing control
+// to the candidate's file, so the limits also apply to anything the script
+// imports. The process limit stops fork() and subprocess; the file-size
+// limit stops writes
+const PYTHON_BOOTSTRAP = `
+import resource, runpy, sys
+limit = int(sys.argv[2])
+for rlimit, value in (
+    (resource.RLIMIT_AS, limit),
+    (resource.RLIMIT_NPROC, 0),
+    (resource.RLIMIT_FSIZE, 0),
+):
+    try:
+        resource.setrlimit(rlimit, (value, value))
+    except (ValueError, OSError):
+        pass
+path = sys.argv[1]
+sys.argv = [path]
+runpy.run_path(path, run_name='__main__')
+`;
+
+// Only what the interpreters need is visible in the sandbox, read-only;
+// the relay's own files, and its .env, are not
+const SANDBOX_READ_ONLY_PATHS = [
+  '/usr',
+  '/bin',
+  '/lib',
+  '/lib64',
+  '/etc/ld.so.cache',
+  // Node's install prefix, e.g. under ~/.nvm
+  path.dirname(path.dirname(process.execPath)),
+];
+
+/**
+ * Wraps a command in bubblewrap: no network, no other processes, a
+ * read-only filesystem and a private /tmp
+ */
+const SANDBOXES = {
+  bwrap: (command, args, dir) => [
+    process.env.RUNNER_BWRAP || 'bwrap',
+    [
+      ...SANDBOX_READ_ONLY_PATHS.flatMap((p) => ['--ro-bind-try', p, p]),
+      '--proc',
+      '/proc',
+      '--dev',
+      '/dev',
+      '--tmpfs',
+      '/tmp',
+      '--ro-bind',
+      dir,
+      dir,
+      '--chdir',
+      dir,
+      '--unshare-all',
+      '--cap-drop',
+      'ALL',
+      '--new-session',
+      '--die-with-parent',
+      '--',
+      command,
+      ...args,
+    ],
+  ],
+};
+
+/**
+ * Caps the data segment, which covers the heap, mmap'd memory and
+ * ArrayBuffers; V8's heap limit alone doesn't count Buffer allocations
+ */
+const withMemoryLimit = (command, args, memoryMb) => [
+  '/bin/sh',
+  ['-c', `ulimit -d ${memoryMb * 1024} && exec "$@"`, 'sh', command, ...args],
+];
+
+const nodeArgs = (file, { memoryMb }) => {
+  const args = [`--max-old-space-size=${memoryMb}`];
+  // The permission model stops scripts from writing files or spawning
+  // processes, inside the sandbox as well
+  if (parseInt(process.versions.node) >= 20) {
+    args.push(
+      '--experimental-permission',
+      '--no-warnings',
+      `--allow-fs-read=${file}`
+    );
+  }
+  return args.concat(file);
+};
+
+export const RUNNER_LANGUAGES = {
+  python: {
+    file: 'main.py',
+    command: (file, { memoryMb }) => [
+      process.env.RUNNER_PYTHON || 'python3',
+      ['-I', '-B', '-c', PYTHON_BOOTSTRAP, file, `${memoryMb * 1024 * 1024}`],
+    ],
+  },
+  javascript: {
+    file: 'main.cjs',
+    command: (file, limits) => [process.execPath, nodeArgs(file, limits)],
+  },
+  typescript: {
+    file: 'main.cjs',
+    transform: (code) =>
+      ts.transpileModule(code, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+        },
+      }).outputText,
+    command: (file, limits) => [process.execPath, nodeArgs(file, limits)],
+  },
+};
+
+/**
+ * Runs candidate code in a throwaway directory as a separate process
+ * with a scrubbed environment and time, memory and output limits,
+ * isolated from the host by a sandbox ("bwrap")
+ */
+export class CodeRunner {
+  constructor({ timeoutMs = 5000, memoryMb = 256, sandbox = null } = {}) {
+    if (sandbox && !SANDBOXES[sandbox]) {
+      throw new Error(`Unknown sandbox: "${sandbox}"`);
+    }
+    this.timeoutMs = timeoutMs;
+    this.memoryMb = memoryMb;
+    this.sandbox = sandbox;
+  }
+
+  /**
+   * Every language only runs sandboxed: Node's permission model doesn't
+   * cover the network, and Python has none
+   */
+  supports(language) {
+    return (
+      Object.prototype.hasOwnProperty.call(RUNNER_LANGUAGES, language) &&
+      !!this.sandbox
+    );
+  }
+
+  /**
+   * Why a language can't run, for the error shown in the editor
+   */
+  unsupportedReason(language) {
+    if (RUNNER_LANGUAGES[language] && !this.sandbox) {
+      return `Running ${language} needs a sandbox: set RUNNER_SANDBOX=bwrap on the relay`;
+    }
+    return `Unsupported language: "${language}"`;
+  }
+
+  async run({ language, code, stdin = '' }) {
+    if (!this.supports(language)) {
+      throw new Error(this.unsupportedReason(language));
+    }
+    if (typeof code !== 'string') {
+      throw new Error(`"code" must be a string`);
+    }
+    const spec = RUNNER_LANGUAGES[language];
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'intraview-run-'));
+    try {
+      const file = path.join(dir, spec.file);
+      await writeFile(file, spec.transform ? spec.transform(code) : code);
+      let [command, args] = withMemoryLimit(
+        ...spec.command(file, { memoryMb: this.memoryMb }),
+        this.memoryMb
+      );
+      if (this.sandbox) {
+        [command, args] = SANDBOXES[this.sandbox](command, args, dir);
+      }
+      return await this.execute(command, args, dir, stdin);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  execute(command, args, cwd, stdin) {
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      const child = spawn(command, args, {
+        cwd,
+        env: { PATH: process.env.PATH, HOME: cwd, PYTHONIOENCODING: 'utf-8' },
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      const output = { stdout: '', stderr: '' };
+      let truncated = false;
+      let timedOut = false;
+
+      const kill = () => {
+        try {
+          // Negative pid targets the whole process group
+          process.kill(-child.pid, 'SIGKILL');
+        } catch (e) {
+          child.kill('SIGKILL');
+        }
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, this.timeoutMs);
+
+      const collect = (stream) => (chunk) => {
+        const remaining = MAX_OUTPUT_BYTES - output[stream].length;
+        if (chunk.length > remaining) {
+          output[stream] += chunk.toString('utf8', 0, Math.max(0, remaining));
+          truncated = true;
+          kill();
+        } else {
+          output[stream] += chunk.toString('utf8');
+        }
+      };
+      child.stdout.on('data', collect('stdout'));
+      child.stderr.on('data', collect('stderr'));
+      child.stdin.on('error', () => {});
+      child.stdin.end(stdin);
+
+      child.on('error', (e) => {
+        clearTimeout(timer);
+        reject(e);
+      });
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        resolve({
+          stdout: output.stdout,
+          stderr: output.stderr,
+          exitCode,
+          signal,
+          timedOut,
+          truncated,
+          memoryExceeded:
+            /MemoryError|heap out of memory|allocation failed/.test(
+              output.stderr
+            ),
+          durationMs: Date.now() - startTime,
+        });
+      });
+    });
+  }
+}
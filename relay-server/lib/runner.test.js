@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { CodeRunner, RUNNER_LANGUAGES } from './runner.js';
+
+// Runs without bwrap, which isn't installed everywhere the tests run
+class UnsandboxedRunner extends CodeRunner {
+  supports(language) {
+    return Object.prototype.hasOwnProperty.call(RUNNER_LANGUAGES, language);
+  }
+}
+
+const hasBwrap = !spawnSync(process.env.RUNNER_BWRAP || 'bwrap', ['--version'])
+  .error;
+
+test('only runs code with a sandbox', async () => {
+  const runner = new CodeRunner();
+  assert.equal(runner.supports('python'), false);
+  assert.equal(runner.supports('javascript'), false);
+  assert.equal(new CodeRunner({ sandbox: 'bwrap' }).supports('python'), true);
+  await assert.rejects(
+    runner.run({ language: 'javascript', code: 'console.log(1)' }),
+    /needs a sandbox/
+  );
+});
+
+test('rejects unknown sandboxes and languages', async () => {
+  assert.throws(() => new CodeRunner({ sandbox: 'chroot' }), /Unknown sandbox/);
+  await assert.rejects(
+    new CodeRunner({ sandbox: 'bwrap' }).run({ language: 'cobol', code: '' }),
+    /Unsupported language/
+  );
+});
+
+test('runs JavaScript with stdin', async () => {
+  const run = await new UnsandboxedRunner().run({
+    language: 'javascript',
+    code: 'process.stdin.on("data", (d) => console.log(String(d).toUpperCase()));',
+    stdin: 'hello',
+  });
+  assert.equal(run.exitCode, 0);
+  assert.equal(run.stdout, 'HELLO\n');
+});
+
+test('stops runs that take too long', async () => {
+  const run = await new UnsandboxedRunner({ timeoutMs: 200 }).run({
+    language: 'javascript',
+    code: 'while (true) {}',
+  });
+  assert.equal(run.timedOut, true);
+});
+
+test('caps memory, including buffers', async () => {
+  const run = await new UnsandboxedRunner({ memoryMb: 128 }).run({
+    language: 'javascript',
+    code: 'console.log(Buffer.alloc(1024 * 1024 * 1024).length);',
+  });
+  assert.notEqual(run.exitCode, 0);
+  assert.equal(run.memoryExceeded, true);
+});
+
+test(
+  'stops scripts from writing files',
+  { skip: parseInt(process.versions.node) < 20 },
+  async () => {
+    const run = await new UnsandboxedRunner().run({
+      language: 'javascript',
+      code: 'require("fs").writeFileSync("out.txt", "x");',
+    });
+    assert.notEqual(run.exitCode, 0);
+    assert.match(run.stderr, /ERR_ACCESS_DENIED/);
+  }
+);
+
+test('cuts the sandbox off from the network', { skip: !hasBwrap }, async () => {
+  const run = await new CodeRunner({ sandbox: 'bwrap' }).run({
+    language: 'javascript',
+    code: 'require("net").connect(80, "127.0.0.1").on("connect", () => console.log("connected")).on("error", (e) => console.log(e.code));',
+  });
+  assert.equal(run.exitCode, 0);
+  assert.notEqual(run.stdout.trim(), 'connected');
+});
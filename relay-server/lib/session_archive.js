@@ -0,0 +1,153 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { wavHeader } from './recorder.js';
+
+const SESSION_ID = /^[A-Za-z0-9_-]{1,128}$/;
+const ITEM_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Summary of a session, as listed
+ */
+const sessionMeta = (session) => ({
+  id: session.id,
+  owner: session.owner ?? null,
+  startedAt: session.startedAt,
+  endedAt: session.endedAt,
+  config: session.config,
+});
+
+/**
+ * Stores interview sessions uploaded by the browser as one JSON file each,
+ * with a small summary next to it for listing, and their items' audio as
+ * WAV files:
+ *   <dir>/<id>.json, <dir>/<id>.meta.json, <dir>/<id>/<item id>.wav
+ */
+export class SessionArchive {
+  constructor(dir, { log = () => {} } = {}) {
+    this.dir = dir;
+    this.log = log;
+  }
+
+  filename(id) {
+    if (!SESSION_ID.test(id || '')) {
+      throw new Error(`Invalid session id: "${id}"`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  audioFilename(id, itemId) {
+    if (!ITEM_ID.test(itemId || '')) {
+      throw new Error(`Invalid item id: "${itemId}"`);
+    }
+    return path.join(
+      this.dir,
+      path.basename(this.filename(id), '.json'),
+      `${itemId}.wav`
+    );
+  }
+
+  async save(session) {
+    const filename = this.filename(session?.id);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(filename, JSON.stringify(session));
+    await writeFile(
+      this.metaFilename(session.id),
+      JSON.stringify(sessionMeta(session))
+    );
+  }
+
+  metaFilename(id) {
+    return this.filename(id).replace(/\.json$/, META_SUFFIX);
+  }
+
+  /**
+   * Audio is uploaded apart from the session, as raw PCM16, so long
+   * interviews don't make one huge request
+   */
+  async saveAudio(id, itemId, pcm) {
+    const filename = this.audioFilename(id, itemId);
+    await mkdir(path.dirname(filename), { recursive: true });
+    await writeFile(filename, Buffer.concat([wavHeader(pcm.length), pcm]));
+  }
+
+  /**
+   * Ids of the items whose audio was uploaded
+   */
+  async listAudio(id) {
+    const dir = path.join(this.dir, path.basename(this.filename(id), '.json'));
+    try {
+      return (await readdir(dir))
+        .filter((file) => file.endsWith('.wav'))
+        .map((file) => path.basename(file, '.wav'));
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  async get(id) {
+    try {
+      return JSON.parse(await readFile(this.filename(id), 'utf8'));
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Reads a session's summary, or the whole session if it was saved before
+   * summaries were
+   */
+  async getMeta(id) {
+    try {
+      return JSON.parse(await readFile(this.metaFilename(id), 'utf8'));
+    } catch (e) {
+      if (e.code !== 'ENOENT') {
+        throw e;
+      }
+    }
+    const session = await this.get(id);
+    return session && sessionMeta(session);
+  }
+
+  /**
+   * Summaries of the sessions, newest first, only the owner's if given
+   * Files that can't be read or parsed are logged and left out
+   */
+  async list({ owner } = {}) {
+    let files;
+    try {
+      files = await readdir(this.dir);
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+    const sessions = [];
+    const ids = files
+      .filter((f) => f.endsWith('.json') && !f.endsWith(META_SUFFIX))
+      .map((f) => path.basename(f, '.json'));
+    for (const id of ids) {
+      let meta;
+      try {
+        meta = await this.getMeta(id);
+      } catch (e) {
+        this.log(`Skipping session "${id}": ${e.message}`);
+        continue;
+      }
+      if (meta && (owner === undefined || meta.owner === owner)) {
+        sessions.push(meta);
+      }
+    }
+    return sessions.sort((a, b) =>
+      (b.startedAt || '').localeCompare(a.startedAt || '')
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SessionArchive } from './session_archive.js';
+
+const withArchive = async (fn) => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+  try {
+    const logs = [];
+    await fn(new SessionArchive(dir, { log: (line) => logs.push(line) }), {
+      dir,
+      logs,
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const session = (id, startedAt, owner = 'alice') => ({
+  id,
+  owner,
+  startedAt,
+  endedAt: null,
+  config: { interviewType: 'coding' },
+  items: [{ id: 'item_1', formatted: { transcript: 'Hello' } }],
+});
+
+test('lists summaries from the files saved next to the sessions', async () => {
+  await withArchive(async (archive) => {
+    await archive.save(session('one', '2024-01-01T00:00:00Z'));
+    await archive.save(session('two', '2024-01-02T00:00:00Z', 'bob'));
+    const sessions = await archive.list();
+    assert.deepEqual(
+      sessions.map((s) => s.id),
+      ['two', 'one']
+    );
+    assert.equal(sessions[0].items, undefined);
+    assert.deepEqual(
+      (await archive.list({ owner: 'alice' })).map((s) => s.id),
+      ['one']
+    );
+  });
+});
+
+test('lists sessions saved without a summary', async () => {
+  await withArchive(async (archive, { dir }) => {
+    await writeFile(
+      path.join(dir, 'old.json'),
+      JSON.stringify(session('old', '2024-01-01T00:00:00Z'))
+    );
+    assert.deepEqual(
+      (await archive.list()).map((s) => s.id),
+      ['old']
+    );
+  });
+});
+
+test('skips sessions that cannot be read', async () => {
+  await withArchive(async (archive, { dir, logs }) => {
+    await archive.save(session('good', '2024-01-01T00:00:00Z'));
+    await writeFile(path.join(dir, 'broken.json'), '{"id": "bro');
+    assert.deepEqual(
+      (await archive.list()).map((s) => s.id),
+      ['good']
+    );
+    assert.match(logs.join('\n'), /Skipping session "broken"/);
+  });
+});
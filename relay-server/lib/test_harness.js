@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const FLOAT_TOLERANCE = 1e-6;
+
+// Each language gets a driver appended to the candidate's code. The driver
+// calls the entry point once per case and prints one sentinel-prefixed JSON
+// line per result, so candidate print() output can be told apart
+const DRIVERS = {
+  python: (entryPoint, cases, sentinel) => {
+    const name = JSON.stringify(entryPoint);
+    const casesJson = JSON.stringify(JSON.stringify(cases));
+    const prefix = JSON.stringify(sentinel);
+    return `
+
+import json as __json, math as __math, time as __time, traceback as __traceback
+def __json_safe(value):
+    # JSON has no Infinity or NaN, so they're sent as their repr, e.g. 'inf'
+    if isinstance(value, float) and not __math.isfinite(value):
+        return repr(value)
+    if isinstance(value, (list, tuple)):
+        return [__json_safe(v) for v in value]
+    if isinstance(value, dict):
+        return {k: __json_safe(v) for k, v in value.items()}
+    return value
+def __resolve():
+    if callable(globals().get(${name})):
+        return globals()[${name}]
+    if 'Solution' in globals():
+        return getattr(globals()['Solution'](), ${name}, None)
+__fn = __resolve()
+if __fn is None:
+    raise NameError('Function ' + ${name} + ' not found')
+for __i, __case in enumerate(__json.loads(${casesJson})):
+    __start = __time.perf_counter()
+    __actual, __error = None, None
+    try:
+        __actual = __fn(*__case)
+    except Exception as __e:
+        __error = ''.join(__traceback.format_exception_only(type(__e), __e)).strip()
+    __ms = (__time.perf_counter() - __start) * 1000
+    __output = {'index': __i, 'actual': __actual, 'error': __error, 'durationMs': __ms}
+    try:
+        __line = __json.dumps(__json_safe(__output), default=repr, allow_nan=False)
+    except ValueError as __e:
+        __output.update(actual=None, error='Result is not JSON serializable: ' + str(__e))
+        __line = __json.dumps(__json_safe(__output), default=repr, allow_nan=False)
+    print(${prefix} + __line, flush=True)
+`;
+  },
+  javascript: (entryPoint, cases, sentinel) => {
+    const prefix = JSON.stringify(sentinel);
+    return `
+;(() => {
+  const __fn =
+    typeof ${entryPoint} === 'function'
+      ? ${entryPoint}
+      : typeof Solution === 'function'
+      ? (() => { const s = new Solution(); return s.${entryPoint}.bind(s); })()
+      : undefined;
+  if (typeof __fn !== 'function') {
+    throw new ReferenceError('Function ${entryPoint} not found');
+  }
+  ${JSON.stringify(cases)}.forEach((__case, index) => {
+    const start = process.hrtime.bigint();
+    let actual = null;
+    let error = null;
+    try {
+      actual = __fn(...__case);
+    } catch (e) {
+      error = String(e);
+    }
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const output = { index, actual: actual ?? null, error, durationMs };
+    process.stdout.write(${prefix} + JSON.stringify(output) + '\\n');
+  });
+})();
+`;
+  },
+};
+DRIVERS.typescript = DRIVERS.javascript;
+
+/**
+ * Deep equality for JSON values, with a tolerance for floating point numbers
+ */
+export function valuesEqual(expected, actual) {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return (
+      expected === actual || Math.abs(expected - actual) <= FLOAT_TOLERANCE
+    );
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((value, i) => valuesEqual(value, actual[i]))
+    );
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return false;
+    }
+    const keys = Object.keys(expected);
+    return (
+      keys.length === Object.keys(actual).length &&
+      keys.every((key) => valuesEqual(expected[key], actual[key]))
+    );
+  }
+  return expected === actual;
+}
+
+/**
+ * Runs candidate code against a question's test cases through a CodeRunner
+ */
+export class TestHarness {
+  constructor(runner) {
+    this.runner = runner;
+  }
+
+  supports(language) {
+    return !!DRIVERS[language] && this.runner.supports(language);
+  }
+
+  async run({ language, code, entryPoint, testCases }) {
+    if (!this.supports(language)) {
+      throw new Error(
+        DRIVERS[language]
+          ? this.runner.unsupportedReason(language)
+          : `Unsupported language: "${language}"`
+      );
+    }
+    if (!IDENTIFIER.test(entryPoint || '')) {
+      throw new Error(`Invalid entry point: "${entryPoint}"`);
+    }
+    if (!Array.isArray(testCases) || !testCases.length) {
+      throw new Error(`"testCases" must be a non-empty array`);
+    }
+    // Hidden cases run in a process of their own whose output is dropped,
+    // so candidate code can't print or raise their inputs
+    const indexes = { visible: [], hidden: [] };
+    testCases.forEach((testCase, index) =>
+      indexes[testCase.hidden ? 'hidden' : 'visible'].push(index)
+    );
+    const [visible, hidden] = await Promise.all(
+      [indexes.visible, indexes.hidden].map((group) =>
+        group.length
+          ? this.runCases(
+              language,
+              code,
+              entryPoint,
+              group.map((index) => testCases[index])
+            )
+          : null
+      )
+    );
+    const outputs = {};
+    indexes.visible.forEach((index, i) => {
+      outputs[index] = visible.outputs[i];
+    });
+    indexes.hidden.forEach((index, i) => {
+      outputs[index] = hidden.outputs[i];
+    });
+    const runs = [visible, hidden].filter(Boolean).map(({ run }) => run);
+
+    const results = testCases.map((testCase, index) => {
+      const output = outputs[index];
+      const isHidden = !!testCase.hidden;
+      const base = {
+        index,
+        name: testCase.name || `Case ${index + 1}`,
+        hidden: isHidden,
+        args: isHidden ? null : testCase.args || [],
+        expected: isHidden ? null : testCase.expected,
+      };
+      if (!output) {
+        const { run } = isHidden ? hidden : visible;
+        return {
+          ...base,
+          passed: false,
+          actual: null,
+          error: run.timedOut ? 'Timed out' : 'Did not run',
+          durationMs: null,
+        };
+      }
+      return {
+        ...base,
+        passed: !output.error && valuesEqual(testCase.expected, output.actual),
+        actual: isHidden ? null : output.actual,
+        error: isHidden && output.error ? 'Raised an error' : output.error,
+        durationMs: Math.round(output.durationMs * 1000) / 1000,
+      };
+    });
+
+    return {
+      results,
+      passed: results.filter((result) => result.passed).length,
+      total: results.length,
+      stdout: visible ? visible.stdout : '',
+      stderr: visible ? visible.run.stderr : '',
+      exitCode: visible ? visible.run.exitCode : hidden.run.exitCode,
+      timedOut: runs.some((run) => run.timedOut),
+      durationMs: Math.max(...runs.map((run) => run.durationMs)),
+    };
+  }
+
+  /**
+   * Runs the cases in one process; outputs are in the order of the cases,
+   * and stdout is what the candidate's code printed
+   */
+  async runCases(language, code, entryPoint, testCases) {
+    const sentinel = `__INTRAVIEW_RESULT_${crypto
+      .randomBytes(8)
+      .toString('hex')}__`;
+    const driver = DRIVERS[language](
+      entryPoint,
+      testCases.map((testCase) => testCase.args || []),
+      sentinel
+    );
+    const run = await this.runner.run({ language, code: code + driver });
+
+    const outputs = [];
+    const stdout = [];
+    for (const line of run.stdout.split('\n')) {
+      if (line.startsWith(sentinel)) {
+        try {
+          const output = JSON.parse(line.slice(sentinel.length));
+          outputs[output.index] = output;
+        } catch (e) {
+          stdout.push(line);
+        }
+      } else {
+        stdout.push(line);
+      }
+    }
+    return { run, outputs, stdout: stdout.join('\n') };
+  }
+}
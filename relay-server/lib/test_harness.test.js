@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { CodeRunner, RUNNER_LANGUAGES } from './runner.js';
+import { TestHarness, valuesEqual } from './test_harness.js';
+
+// The relay only runs Python sandboxed; the driver is tested without one
+class UnsandboxedRunner extends CodeRunner {
+  supports(language) {
+    return Object.prototype.hasOwnProperty.call(RUNNER_LANGUAGES, language);
+  }
+}
+
+const harness = new TestHarness(new UnsandboxedRunner({ timeoutMs: 10_000 }));
+const hasPython = !spawnSync(process.env.RUNNER_PYTHON || 'python3', [
+  '--version',
+]).error;
+
+const testCases = [
+  { args: [1, 2], expected: 3 },
+  { name: 'Negative', args: [-1, -2], expected: -3 },
+  { args: [2, 2], expected: 4, hidden: true },
+];
+
+test('compares JSON values, with a tolerance for floats', () => {
+  assert.ok(valuesEqual({ a: [1, 0.1 + 0.2] }, { a: [1, 0.3] }));
+  assert.ok(!valuesEqual([1, 2], [1, 2, 3]));
+  assert.ok(!valuesEqual({ a: 1 }, { a: 1, b: 2 }));
+  assert.ok(!valuesEqual({}, []));
+  assert.ok(valuesEqual(null, null));
+});
+
+test('runs JavaScript cases and hides hidden ones', async () => {
+  const run = await harness.run({
+    language: 'javascript',
+    code: 'function add(a, b) {\n  console.log("adding");\n  return a + b;\n}\n',
+    entryPoint: 'add',
+    testCases,
+  });
+  assert.equal(run.passed, 3);
+  assert.equal(run.results[1].name, 'Negative');
+  assert.deepEqual(run.results[0].actual, 3);
+  assert.match(run.stdout, /adding/);
+  const hidden = run.results[2];
+  assert.equal(hidden.hidden, true);
+  assert.equal(hidden.args, null);
+  assert.equal(hidden.expected, null);
+  assert.equal(hidden.actual, null);
+});
+
+test('keeps the output of hidden cases on the relay', async () => {
+  const run = await harness.run({
+    language: 'javascript',
+    code: 'function add(a, b) {\n  console.log("args", a, b);\n  console.error("args", a, b);\n  if (a === 2) throw new Error(`bad ${a}`);\n  return a + b;\n}\n',
+    entryPoint: 'add',
+    testCases,
+  });
+  assert.match(run.stdout, /args 1 2/);
+  assert.doesNotMatch(run.stdout + run.stderr, /args 2 2/);
+  assert.equal(run.results[2].passed, false);
+  assert.equal(run.results[2].error, 'Raised an error');
+});
+
+test('returns no output when every case is hidden', async () => {
+  const run = await harness.run({
+    language: 'javascript',
+    code: 'function add(a, b) {\n  console.log(a, b);\n  return a + b;\n}\n',
+    entryPoint: 'add',
+    testCases: testCases.slice(2),
+  });
+  assert.equal(run.passed, 1);
+  assert.equal(run.stdout, '');
+  assert.equal(run.stderr, '');
+});
+
+test('calls methods on a Solution class', async () => {
+  const run = await harness.run({
+    language: 'typescript',
+    code: 'class Solution {\n  add(a: number, b: number): number {\n    return a + b;\n  }\n}\n',
+    entryPoint: 'add',
+    testCases,
+  });
+  assert.equal(run.passed, 3);
+});
+
+test('reports errors per case', async () => {
+  const run = await harness.run({
+    language: 'javascript',
+    code: 'function add(a, b) {\n  if (a < 0) throw new Error("negative");\n  return a + b;\n}\n',
+    entryPoint: 'add',
+    testCases,
+  });
+  assert.equal(run.passed, 2);
+  assert.equal(run.results[1].passed, false);
+  assert.match(run.results[1].error, /negative/);
+});
+
+test('checks the entry point and cases', async () => {
+  await assert.rejects(
+    harness.run({
+      language: 'javascript',
+      code: '',
+      entryPoint: 'add(); process.exit',
+      testCases,
+    }),
+    /Invalid entry point/
+  );
+  await assert.rejects(
+    harness.run({
+      language: 'javascript',
+      code: '',
+      entryPoint: 'add',
+      testCases: [],
+    }),
+    /non-empty array/
+  );
+});
+
+test('runs Python cases', { skip: !hasPython }, async () => {
+  const run = await harness.run({
+    language: 'python',
+    code: 'def add(a, b):\n    print("adding")\n    return a + b\n',
+    entryPoint: 'add',
+    testCases,
+  });
+  assert.equal(run.passed, 3);
+  assert.match(run.stdout, /adding/);
+});
+
+test('reports non-finite Python results', { skip: !hasPython }, async () => {
+  const run = await harness.run({
+    language: 'python',
+    code: "def ratio(a, b):\n    return [float('inf'), float('nan')] if b == 0 else a / b\n",
+    entryPoint: 'ratio',
+    testCases: [
+      { args: [1, 0], expected: 0 },
+      { args: [1, 2], expected: 0.5 },
+    ],
+  });
+  assert.deepEqual(run.results[0].actual, ['inf', 'nan']);
+  assert.equal(run.results[0].error, null);
+  assert.equal(run.results[1].passed, true);
+});
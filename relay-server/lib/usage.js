@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { appendFile, readFile } from 'fs/promises';
+import { HttpError } from './http.js';
+
+const LIMIT_CHECK_INTERVAL_MS = 15_000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Per-user session limits and a JSONL usage log
+ * Minutes are counted per UTC day, from finished sessions and code runs
+ * plus the sessions still running and the time reserved by runs in flight
+ */
+export class UsageTracker {
+  constructor({ logFile = null, log = () => {} } = {}) {
+    this.logFile = logFile;
+    this.log = log;
+    this.active = new Map();
+    this.runs = new Map();
+    this.finishedMs = new Map();
+    this.day = today();
+  }
+
+  /**
+   * Restores today's totals from the usage log after a restart
+   */
+  async load() {
+    if (!this.logFile) {
+      return;
+    }
+    let text;
+    try {
+      text = await readFile(this.logFile, 'utf8');
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return;
+      }
+      throw e;
+    }
+    for (const line of text.split('\n')) {
+      try {
+        const entry = JSON.parse(line);
+        if (
+          (entry.event === 'session.end' || entry.event === 'run.end') &&
+          entry.time.startsWith(this.day)
+        ) {
+          this.addFinished(entry.user, entry.durationMs);
+        }
+      } catch (e) {
+        // Skip blank or partially written lines
+      }
+    }
+  }
+
+  addFinished(userId, durationMs) {
+    this.finishedMs.set(
+      userId,
+      (this.finishedMs.get(userId) || 0) + durationMs
+    );
+  }
+
+  rollOver() {
+    if (this.day !== today()) {
+      this.day = today();
+      this.finishedMs.clear();
+    }
+  }
+
+  sessions(userId) {
+    return Array.from(this.active.values()).filter((s) => s.user === userId);
+  }
+
+  minutesUsed(userId) {
+    this.rollOver();
+    const now = Date.now();
+    const runningMs = this.sessions(userId).reduce(
+      (sum, s) => sum + (now - Math.max(s.startedAt, this.dayStart())),
+      0
+    );
+    const reservedMs = Array.from(this.runs.values())
+      .filter((r) => r.user === userId)
+      .reduce((sum, r) => sum + r.reservedMs, 0);
+    return (
+      ((this.finishedMs.get(userId) || 0) + runningMs + reservedMs) / 60_000
+    );
+  }
+
+  dayStart() {
+    return new Date(`${this.day}T00:00:00Z`).valueOf();
+  }
+
+  status(user) {
+    const minutesUsed = this.minutesUsed(user.id);
+    return {
+      user: user.id,
+      activeSessions: this.sessions(user.id).length,
+      maxConcurrentSessions: user.maxConcurrentSessions,
+      minutesUsed: Math.round(minutesUsed * 10) / 10,
+      maxMinutesPerDay: user.maxMinutesPerDay,
+      minutesLeft: Math.max(0, Math.floor(user.maxMinutesPerDay - minutesUsed)),
+    };
+  }
+
+  /**
+   * Starts a metered session, or throws when the user is over a limit
+   * onLimit is called if the daily minutes run out mid-session
+   */
+  start(user, { onLimit = () => {} } = {}) {
+    const status = this.status(user);
+    if (status.activeSessions >= user.maxConcurrentSessions) {
+      throw new HttpError(
+        429,
+        `Too many sessions: ${status.activeSessions} of ${user.maxConcurrentSessions} already running`
+      );
+    }
+    this.checkMinutes(user, status);
+    const session = {
+      id: crypto.randomUUID(),
+      user: user.id,
+      startedAt: Date.now(),
+      interval: null,
+    };
+    session.interval = setInterval(() => {
+      if (this.minutesUsed(user.id) >= user.maxMinutesPerDay) {
+        this.write({
+          event: 'session.limit',
+          user: user.id,
+          sessionId: session.id,
+        });
+        onLimit(`Daily limit of ${user.maxMinutesPerDay} minutes reached`);
+      }
+    }, LIMIT_CHECK_INTERVAL_MS);
+    this.active.set(session.id, session);
+    this.write({
+      event: 'session.start',
+      user: user.id,
+      sessionId: session.id,
+    });
+    return () => this.end(session.id);
+  }
+
+  checkMinutes(user, status = this.status(user)) {
+    if (status.minutesLeft <= 0) {
+      throw new HttpError(
+        429,
+        `Daily limit of ${user.maxMinutesPerDay} minutes reached`
+      );
+    }
+  }
+
+  /**
+   * Runs a metered code run ("run" or "tests"), or throws when the user is
+   * out of minutes. Its duration counts toward them
+   * reserveMs, the longest the run can take, is held while it runs so
+   * concurrent runs can't all pass the check and overrun the limit together
+   */
+  async meter(user, kind, run, { reserveMs = 0 } = {}) {
+    this.checkMinutes(user);
+    if (
+      this.minutesUsed(user.id) + reserveMs / 60_000 >
+      user.maxMinutesPerDay
+    ) {
+      throw new HttpError(
+        429,
+        `Not enough of the daily ${
+          user.maxMinutesPerDay
+        } minutes left for a ${kind} of up to ${reserveMs / 1000}s`
+      );
+    }
+    const id = crypto.randomUUID();
+    this.runs.set(id, { user: user.id, reservedMs: reserveMs });
+    const startedAt = Date.now();
+    try {
+      return await run();
+    } finally {
+      const durationMs = Date.now() - startedAt;
+      this.runs.delete(id);
+      this.rollOver();
+      this.addFinished(user.id, durationMs);
+      this.write({ event: 'run.end', user: user.id, kind, durationMs });
+    }
+  }
+
+  end(sessionId) {
+    const session = this.active.get(sessionId);
+    if (!session) {
+      return;
+    }
+    clearInterval(session.interval);
+    this.active.delete(sessionId);
+    this.rollOver();
+    const durationMs =
+      Date.now() - Math.max(session.startedAt, this.dayStart());
+    this.addFinished(session.user, durationMs);
+    this.write({
+      event: 'session.end',
+      user: session.user,
+      sessionId,
+      durationMs,
+    });
+  }
+
+  write(entry) {
+    const line = { time: new Date().toISOString(), ...entry };
+    this.log(`Usage: ${JSON.stringify(line)}`);
+    if (this.logFile) {
+      appendFile(this.logFile, JSON.stringify(line) + '\n').catch((e) =>
+        this.log(`Error writing usage log: ${e.message}`)
+      );
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { UsageTracker } from './usage.js';
+
+const user = { id: 'alice', maxConcurrentSessions: 1, maxMinutesPerDay: 10 };
+
+test('limits concurrent sessions', () => {
+  const usage = new UsageTracker();
+  const end = usage.start(user);
+  assert.throws(
+    () => usage.start(user),
+    (e) => e.status === 429 && /Too many sessions/.test(e.message)
+  );
+  end();
+  usage.start(user)();
+  assert.equal(usage.status(user).activeSessions, 0);
+});
+
+test('limits minutes per day', () => {
+  const usage = new UsageTracker();
+  usage.addFinished('alice', 10 * 60_000);
+  assert.equal(usage.status(user).minutesLeft, 0);
+  assert.throws(
+    () => usage.start(user),
+    (e) => e.status === 429 && /Daily limit/.test(e.message)
+  );
+});
+
+test('starts a new day from zero', () => {
+  const usage = new UsageTracker();
+  usage.addFinished('alice', 10 * 60_000);
+  usage.day = '2000-01-01';
+  assert.equal(usage.status(user).minutesUsed, 0);
+});
+
+test('meters code runs against the daily minutes', async () => {
+  const usage = new UsageTracker();
+  assert.equal(await usage.meter(user, 'run', async () => 'result'), 'result');
+  assert.ok(usage.finishedMs.get('alice') >= 0);
+  usage.addFinished('alice', 10 * 60_000);
+  let ran = false;
+  await assert.rejects(
+    usage.meter(user, 'tests', async () => {
+      ran = true;
+    }),
+    (e) => e.status === 429
+  );
+  assert.equal(ran, false);
+});
+
+test('reserves time for runs in flight', async () => {
+  const usage = new UsageTracker();
+  usage.addFinished('alice', 8 * 60_000);
+  let finish;
+  const hang = () => new Promise((resolve) => (finish = resolve));
+  const running = usage.meter(user, 'run', hang, { reserveMs: 30_000 });
+  assert.equal(usage.status(user).minutesUsed, 8.5);
+  await assert.rejects(
+    usage.meter(user, 'tests', async () => {}, { reserveMs: 120_000 }),
+    (e) => e.status === 429 && /Not enough/.test(e.message)
+  );
+  finish('done');
+  assert.equal(await running, 'done');
+  assert.equal(usage.runs.size, 0);
+  assert.equal(usage.status(user).minutesUsed, 8);
+});
+
+test('restores finished sessions and runs from the log', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'usage-test-'));
+  try {
+    const logFile = path.join(dir, 'usage.jsonl');
+    const time = new Date().toISOString();
+    await writeFile(
+      logFile,
+      [
+        { time, event: 'session.end', user: 'alice', durationMs: 120_000 },
+        { time, event: 'run.end', user: 'alice', durationMs: 60_000 },
+        {
+          time: '2000-01-01T00:00:00Z',
+          event: 'session.end',
+          user: 'alice',
+          durationMs: 60_000,
+        },
+      ]
+        .map((entry) => JSON.stringify(entry))
+        .join('\n') + '\n{"partial'
+    );
+    const usage = new UsageTracker({ logFile });
+    await usage.load();
+    assert.equal(usage.status(user).minutesUsed, 3);
+
+    usage.start(user)();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const lines = (await readFile(logFile, 'utf8')).split('\n');
+    assert.ok(lines.some((line) => line.includes('"session.start"')));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
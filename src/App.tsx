@@ -1,10 +1,38 @@
+import { useEffect, useState } from 'react';
 import { ConsolePage } from './pages/ConsolePage';
+import { HistoryPage } from './pages/HistoryPage';
 import './App.scss';
 
+/**
+ * Hash routes:
+ * - #/history lists saved sessions
+ * - #/history/<id> reopens one read-only
+ * - #/history/<id>/replay plays it back
+ * - anything else is the interview console
+ */
+const parseRoute = (hash: string) => {
+  const match = hash.match(/^#\/history(?:\/([^/]+)(\/replay)?)?$/);
+  return match
+    ? { page: 'history', sessionId: match[1], replay: !!match[2] }
+    : { page: 'console' };
+};
+
 function App() {
+  const [route, setRoute] = useState(parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
   return (
     <div data-component="App">
-      <ConsolePage />
+      {route.page === 'history' ? (
+        <HistoryPage sessionId={route.sessionId} replay={route.replay} />
+      ) : (
+        <ConsolePage />
+      )}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Mic } from 'react-feather';
+
+import {
+  AUDIO_CHECK_MS,
+  AudioDevice,
+  AudioLevels,
+  canSelectOutput,
+  playAudioCheck,
+  recordAudioCheck,
+} from '../../utils/audio_devices';
+import { Button } from '../button/Button';
+
+import './AudioSetup.scss';
+
+type CheckStatus = 'idle' | 'recording' | 'playing';
+
+/**
+ * Microphone and speaker pickers, and a check that records a few seconds
+ * and plays them back, warning about a quiet or clipping microphone
+ */
+export function AudioSetup({
+  inputDevices,
+  outputDevices,
+  inputDeviceId,
+  outputDeviceId,
+  onInputChange,
+  onOutputChange,
+}: {
+  inputDevices: AudioDevice[];
+  outputDevices: AudioDevice[];
+  inputDeviceId: string;
+  outputDeviceId: string;
+  onInputChange: (deviceId: string) => void;
+  onOutputChange: (deviceId: string) => void;
+}) {
+  const [status, setStatus] = useState<CheckStatus>('idle');
+  const [level, setLevel] = useState(0);
+  const [result, setResult] = useState<{
+    levels: AudioLevels;
+    warnings: string[];
+  } | null>(null);
+  const [error, setError] = useState('');
+
+  const runCheck = async () => {
+    setResult(null);
+    setError('');
+    setStatus('recording');
+    try {
+      const { url, levels, warnings } = await recordAudioCheck({
+        deviceId: inputDeviceId,
+        onLevel: setLevel,
+      });
+      setResult({ levels, warnings });
+      setStatus('playing');
+      try {
+        await playAudioCheck(url, outputDeviceId);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    setStatus('idle');
+  };
+
+  return (
+    <div data-component="AudioSetup">
+      <label className="device">
+        Microphone
+        <select
+          value={inputDeviceId}
+          onChange={(e) => onInputChange(e.target.value)}
+        >
+          <option value="">System default</option>
+          {inputDevices.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || device.deviceId}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="device">
+        Speaker
+        <select
+          value={outputDeviceId}
+          disabled={!canSelectOutput()}
+          title={
+            canSelectOutput()
+              ? undefined
+              : 'This browser always plays audio on the default output'
+          }
+          onChange={(e) => onOutputChange(e.target.value)}
+        >
+          <option value="">System default</option>
+          {outputDevices.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || device.deviceId}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="check">
+        <Button
+          icon={Mic}
+          label={
+            status === 'recording'
+              ? 'Speak now...'
+              : status === 'playing'
+              ? 'Playing back...'
+              : 'Test Audio'
+          }
+          disabled={status !== 'idle'}
+          title={`Record ${AUDIO_CHECK_MS / 1000} seconds and play them back`}
+          onClick={runCheck}
+        />
+        <div className="level" aria-label="Input level">
+          <div
+            className="level-fill"
+            style={{ width: `${Math.round(level * 100)}%` }}
+          />
+        </div>
+      </div>
+      {error && <div className="check-error">{error}</div>}
+      {result &&
+        (result.warnings.length ? (
+          result.warnings.map((warning, i) => (
+            <div className="check-warning" key={i}>
+              {warning}
+            </div>
+          ))
+        ) : (
+          <div className="check-ok">
+            Microphone sounds good (peak {Math.round(result.levels.peak * 100)}
+            %)
+          </div>
+        ))}
+    </div>
+  );
+}
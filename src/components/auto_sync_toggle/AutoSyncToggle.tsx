@@ -0,0 +1,24 @@
+import './AutoSyncToggle.scss';
+
+/**
+ * Whether the workspace is sent to the interviewer as the candidate
+ * pauses, shared by the code editor and the whiteboard
+ */
+export function AutoSyncToggle({
+  checked,
+  onChange,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label data-component="AutoSyncToggle">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+      Auto-sync
+    </label>
+  );
+}
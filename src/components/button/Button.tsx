@@ -35,13 +35,13 @@ export function Button({
   return (
     <button data-component="Button" className={classList.join(' ')} {...rest}>
       {StartIcon && (
-        <span className="icon icon-start">
+        <span className="icon icon-start" aria-hidden="true">
           <StartIcon />
         </span>
       )}
       <span className="label">{label}</span>
       {EndIcon && (
-        <span className="icon icon-end">
+        <span className="icon icon-end" aria-hidden="true">
           <EndIcon />
         </span>
       )}
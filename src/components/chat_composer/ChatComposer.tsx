@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Send } from 'react-feather';
+
+import { Button } from '../button/Button';
+
+import './ChatComposer.scss';
+
+/**
+ * Message box for text interviews
+ * Enter sends, Shift+Enter starts a new line
+ */
+export function ChatComposer({
+  onSend,
+  disabled = false,
+}: {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+}) {
+  const [text, setText] = useState('');
+
+  const send = () => {
+    if (disabled || !text.trim()) {
+      return;
+    }
+    onSend(text.trim());
+    setText('');
+  };
+
+  return (
+    <div data-component="ChatComposer">
+      <textarea
+        value={text}
+        rows={2}
+        placeholder="Message the interviewer..."
+        aria-label="Message the interviewer"
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            send();
+          }
+        }}
+      />
+      <Button
+        label="Send"
+        icon={Send}
+        iconPosition="end"
+        buttonStyle="action"
+        disabled={disabled || !text.trim()}
+        onClick={send}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { Rubric } from '../../rubrics';
+import {
+  Evaluation,
+  evaluationScores,
+  levelDescriptor,
+  overallScore,
+} from '../../utils/evaluation';
+import {
+  HintUsage,
+  applyHintPenalty,
+  describeHintUsage,
+  hintDeductions,
+} from '../../utils/hints';
+import { Button } from '../button/Button';
+
+import './EvaluationPanel.scss';
+
+export type EvaluationStatus = 'idle' | 'loading' | 'error';
+
+/**
+ * Scores on each rubric dimension with their justifications and evidence
+ * Scores shown are after the rubric's hint penalty, when hints are given
+ * onRequest is omitted when the evaluation is read-only
+ */
+export function EvaluationPanel({
+  rubric,
+  evaluation,
+  status = 'idle',
+  error = '',
+  hints,
+  hintLevels = 0,
+  onRequest,
+}: {
+  rubric: Rubric;
+  evaluation: Evaluation | null;
+  status?: EvaluationStatus;
+  error?: string;
+  hints?: HintUsage[];
+  hintLevels?: number;
+  onRequest?: () => void;
+}) {
+  const { min, max } = rubric.scale;
+  const deductions = hintDeductions(rubric, hints || []);
+  const scores = applyHintPenalty(
+    evaluationScores(evaluation),
+    rubric,
+    hints || []
+  );
+  const overall = overallScore(scores, rubric);
+  return (
+    <div data-component="EvaluationPanel">
+      <div className="rubric-name">
+        {rubric.name}
+        <span className="score">
+          Overall {overall ?? '-'}/{max}
+        </span>
+      </div>
+      <div className="feedback-container">
+        {rubric.dimensions.map(({ key, label, levels }) => {
+          const dimension = evaluation?.dimensions[key];
+          const score = scores[key];
+          return (
+            <div className="progress-bar" key={key}>
+              <label htmlFor={`evaluation-${key}`}>
+                {label}
+                <span className="score">
+                  {dimension ? `${score}/${max}` : '-'}
+                  {dimension && deductions[key] > 0 && (
+                    <span className="deduction">
+                      {' '}
+                      (−{deductions[key]} for hints)
+                    </span>
+                  )}
+                </span>
+              </label>
+              <progress
+                id={`evaluation-${key}`}
+                value={dimension ? score - min : 0}
+                max={max - min}
+              />
+              {dimension && (
+                <div className="justification">
+                  {levelDescriptor(levels, dimension.score) && (
+                    <div className="level">
+                      {levelDescriptor(levels, dimension.score)}
+                    </div>
+                  )}
+                  {dimension.justification}
+                  {dimension.evidence.map((quote, i) => (
+                    <blockquote key={i}>{quote}</blockquote>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {hints && (
+        <div className="hints">
+          Hints: {describeHintUsage(hints, hintLevels)}
+        </div>
+      )}
+      {evaluation?.summary && (
+        <div className="summary">{evaluation.summary}</div>
+      )}
+      {status === 'error' && <div className="error">{error}</div>}
+      {onRequest && (
+        <Button
+          label={
+            status === 'loading'
+              ? 'Evaluating...'
+              : evaluation
+              ? 'Update Feedback'
+              : 'Request Feedback'
+          }
+          disabled={status === 'loading'}
+          onClick={onRequest}
+          className="request-feedback-button"
+        />
+      )}
+    </div>
+  );
+}
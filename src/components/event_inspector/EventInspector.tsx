@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download } from 'react-feather';
+
+import {
+  DEFAULT_EVENT_FILTERS,
+  EventFilters,
+  EventSourceFilter,
+  RealtimeEvent,
+  buildEventLogJsonl,
+  describeLatency,
+  eventMatcher,
+  eventTypes,
+  measureResponseLatency,
+} from '../../utils/event_log';
+import { downloadFile } from '../../utils/report';
+import { Button } from '../button/Button';
+
+import './EventInspector.scss';
+
+/**
+ * Only the latest rows are drawn; filter or search to find older ones
+ */
+const MAX_ROWS = 300;
+
+/**
+ * A run of matching events; index is the first one's place in the log,
+ * so expanded rows stay expanded as events arrive
+ */
+interface EventRow {
+  index: number;
+  realtimeEvent: RealtimeEvent;
+  count: number;
+}
+
+/**
+ * Collapsible view of a JSON value
+ */
+function JsonTree({
+  name,
+  value,
+  depth = 0,
+}: {
+  name?: string;
+  value: any;
+  depth?: number;
+}) {
+  const label =
+    name === undefined ? null : <span className="key">{name}: </span>;
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="json-leaf">
+        {label}
+        <span className={`value ${value === null ? 'null' : typeof value}`}>
+          {JSON.stringify(value)}
+        </span>
+      </div>
+    );
+  }
+  const entries = Object.entries(value);
+  const isArray = Array.isArray(value);
+  return (
+    <details className="json-node" open={depth < 1}>
+      <summary>
+        {label}
+        {isArray ? `[${entries.length}]` : `{${entries.length}}`}
+      </summary>
+      {entries.map(([key, child]) => (
+        <JsonTree key={key} name={key} value={child} depth={depth + 1} />
+      ))}
+    </details>
+  );
+}
+
+/**
+ * Realtime API event log with filters, payload search, per-response
+ * latency and JSONL export
+ * Consecutive events of the same type and source are shown as one row
+ */
+export function EventInspector({
+  events,
+  formatTime,
+}: {
+  events: RealtimeEvent[];
+  formatTime: (time: string) => string;
+}) {
+  const [filters, setFilters] = useState<EventFilters>(DEFAULT_EVENT_FILTERS);
+  const [expanded, setExpanded] = useState<{ [index: number]: boolean }>({});
+  const listRef = useRef<HTMLDivElement>(null);
+  const atBottomRef = useRef(true);
+
+  const types = useMemo(() => eventTypes(events), [events]);
+  const latencies = useMemo(() => measureResponseLatency(events), [events]);
+  const rows = useMemo(() => {
+    const matches = eventMatcher(filters);
+    const rows: EventRow[] = [];
+    events.forEach((realtimeEvent, index) => {
+      if (!matches(realtimeEvent)) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      if (
+        last &&
+        last.realtimeEvent.source === realtimeEvent.source &&
+        last.realtimeEvent.event.type === realtimeEvent.event.type
+      ) {
+        last.count += realtimeEvent.count || 1;
+      } else {
+        rows.push({ index, realtimeEvent, count: realtimeEvent.count || 1 });
+      }
+    });
+    return rows;
+  }, [events, filters]);
+  const shown = rows.slice(-MAX_ROWS);
+
+  /**
+   * Follow new events while scrolled to the bottom
+   */
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && atBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [rows]);
+
+  const updateFilters = (changes: Partial<EventFilters>) =>
+    setFilters((filters) => ({ ...filters, ...changes }));
+
+  return (
+    <div data-component="EventInspector">
+      <div className="event-filters">
+        <select
+          value={filters.source}
+          aria-label="Event source"
+          onChange={(e) =>
+            updateFilters({ source: e.target.value as EventSourceFilter })
+          }
+        >
+          <option value="all">All sources</option>
+          <option value="client">Client</option>
+          <option value="server">Server</option>
+        </select>
+        <select
+          value={filters.type}
+          aria-label="Event type"
+          onChange={(e) => updateFilters({ type: e.target.value })}
+        >
+          <option value="">All types</option>
+          {types.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={filters.search}
+          placeholder="Search payloads..."
+          aria-label="Search payloads"
+          onChange={(e) => updateFilters({ search: e.target.value })}
+        />
+        <Button
+          label="JSONL"
+          icon={Download}
+          buttonStyle="flush"
+          title="Download every event, one JSON object per line"
+          disabled={!events.length}
+          onClick={() =>
+            downloadFile(
+              `realtime-events-${new Date()
+                .toISOString()
+                .slice(0, 19)
+                .replace(/[:T]/g, '-')}.jsonl`,
+              buildEventLogJsonl(events),
+              'application/x-ndjson'
+            )
+          }
+        />
+      </div>
+      <details className="event-latency">
+        <summary>Response latency: {describeLatency(latencies)}</summary>
+        {latencies.map((latency, i) => (
+          <div className="latency-row" key={i}>
+            <span className="event-timestamp">{formatTime(latency.time)}</span>
+            <span className="latency-trigger">{latency.trigger}</span>
+            <span className="latency-value">
+              {latency.latencyMs === null
+                ? 'no audio'
+                : `${latency.latencyMs}ms`}
+            </span>
+          </div>
+        ))}
+      </details>
+      <div
+        className="event-list"
+        ref={listRef}
+        onScroll={(e) => {
+          const list = e.currentTarget;
+          atBottomRef.current =
+            list.scrollHeight - list.scrollTop - list.clientHeight < 16;
+        }}
+      >
+        {!events.length && 'Awaiting connection...'}
+        {rows.length > shown.length && (
+          <div className="event-truncated">
+            Showing the latest {shown.length} of {rows.length} rows
+          </div>
+        )}
+        {shown.map(({ index, realtimeEvent, count }) => {
+          const { time, source, event } = realtimeEvent;
+          const isError = event.type === 'error';
+          return (
+            <div className="event" key={index}>
+              <div className="event-timestamp">{formatTime(time)}</div>
+              <div className="event-details">
+                <div
+                  className="event-summary"
+                  onClick={() =>
+                    setExpanded((expanded) => ({
+                      ...expanded,
+                      [index]: !expanded[index],
+                    }))
+                  }
+                >
+                  <div className={`event-source ${isError ? 'error' : source}`}>
+                    {source === 'client' ? <ArrowUp /> : <ArrowDown />}
+                    <span>{isError ? 'error!' : source}</span>
+                  </div>
+                  <div className="event-type">
+                    {event.type}
+                    {count > 1 && ` (${count})`}
+                  </div>
+                </div>
+                {expanded[index] && (
+                  <div className="event-payload">
+                    <JsonTree value={event} />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
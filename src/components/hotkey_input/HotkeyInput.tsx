@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+
+import { describeKey } from '../../utils/push_to_talk';
+import { Button } from '../button/Button';
+
+import './HotkeyInput.scss';
+
+/**
+ * Picks a key by pressing it: Escape cancels, Backspace or Delete clears
+ */
+export function HotkeyInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: string;
+  onChange: (code: string) => void;
+  label: string;
+}) {
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    if (!isCapturing) {
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        onChange('');
+      } else if (e.key !== 'Escape') {
+        onChange(e.code);
+      }
+      setIsCapturing(false);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [isCapturing, onChange]);
+
+  return (
+    <div data-component="HotkeyInput">
+      <Button
+        label={isCapturing ? 'Press a key...' : describeKey(value)}
+        buttonStyle="flush"
+        aria-label={`${label}: ${describeKey(value)}. Press to change`}
+        onClick={() => setIsCapturing(true)}
+        onBlur={() => setIsCapturing(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import {
+  InterviewPhase,
+  formatCountdown,
+  phaseIndex,
+  phaseSchedule,
+} from '../../utils/interview_timer';
+import { InterviewType } from '../../utils/interview_types';
+
+import './InterviewTimer.scss';
+
+/**
+ * Countdown with the phase plan; the current phase is highlighted and
+ * the marker shows where the interview should be by now
+ */
+export function InterviewTimer({
+  remainingMs,
+  durationMs,
+  phase,
+  interviewType,
+}: {
+  remainingMs: number;
+  durationMs: number;
+  phase: InterviewPhase;
+  interviewType?: InterviewType;
+}) {
+  const schedule = phaseSchedule(durationMs, interviewType);
+  const elapsed = Math.min(1, Math.max(0, 1 - remainingMs / durationMs));
+  const current = phaseIndex(phase);
+  const wrapUpMs = durationMs - schedule[schedule.length - 1].startMs;
+  return (
+    <div data-component="InterviewTimer">
+      <div
+        className={`countdown ${remainingMs <= wrapUpMs ? 'warning' : ''}`}
+        aria-label="Time remaining"
+      >
+        {formatCountdown(remainingMs)}
+      </div>
+      <div className="phases">
+        {schedule.map((scheduled, i) => (
+          <div
+            key={scheduled.key}
+            className={`phase ${
+              i < current ? 'done' : i === current ? 'current' : ''
+            }`}
+            style={{ flexGrow: scheduled.share }}
+            title={scheduled.goal}
+          >
+            {scheduled.label}
+          </div>
+        ))}
+        <div className="marker" style={{ left: `${elapsed * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { LoopRoundResult, buildDebrief } from '../../utils/interview_loop';
+import { interviewTypeLabel } from '../../utils/interview_types';
+
+import './LoopDebrief.scss';
+
+/**
+ * Combined debrief of an interview loop: each round's score and the
+ * hiring recommendation drawn from them
+ */
+export function LoopDebrief({ results }: { results: LoopRoundResult[] }) {
+  const debrief = buildDebrief(results);
+  return (
+    <div data-component="LoopDebrief">
+      <div className="recommendation">
+        {debrief.recommendation}
+        {debrief.average !== null && (
+          <span className="average">{Math.round(debrief.average * 100)}%</span>
+        )}
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>Round</th>
+            <th>Interviewer</th>
+            <th>Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {debrief.rounds.map((round, i) => (
+            <tr key={round.sessionId} title={round.summary || undefined}>
+              <td>
+                {i + 1}. {interviewTypeLabel(round.interviewType)}
+                <div className="question">
+                  {round.questionTitle || "Interviewer's choice"}
+                </div>
+              </td>
+              <td>{round.interviewerName}</td>
+              <td>
+                {round.overall === null
+                  ? '-'
+                  : `${round.overall}/${round.scale.max}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <ul className="reasons">
+        {debrief.reasons.map((reason, i) => (
+          <li key={i}>{reason}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { ArrowDown, ArrowUp, Plus, Play, X } from 'react-feather';
+
+import { Persona, personaLabel } from '../../personas';
+import { Question } from '../../questions';
+import { Rubric } from '../../rubrics';
+import {
+  InterviewLoop,
+  LoopRound,
+  createRound,
+} from '../../utils/interview_loop';
+import { INTERVIEW_DURATIONS } from '../../utils/interview_timer';
+import {
+  INTERVIEW_TYPES,
+  INTERVIEW_TYPE_INFO,
+  InterviewType,
+} from '../../utils/interview_types';
+import { Button } from '../button/Button';
+
+import './LoopEditor.scss';
+
+/**
+ * Editor for the rounds of an interview loop, each with its own
+ * interviewer persona, question, length and rubric
+ */
+export function LoopEditor({
+  loop,
+  personas,
+  questions,
+  rubrics,
+  onChange,
+  onStart,
+}: {
+  loop: InterviewLoop;
+  personas: Persona[];
+  /**
+   * Questions and rubrics of every interview type
+   */
+  questions: Question[];
+  rubrics: Rubric[];
+  onChange: (loop: InterviewLoop) => void;
+  onStart: () => void;
+}) {
+  const updateRound = (index: number, changes: Partial<LoopRound>) =>
+    onChange({
+      ...loop,
+      rounds: loop.rounds.map((round, i) =>
+        i === index ? { ...round, ...changes } : round
+      ),
+    });
+
+  const moveRound = (index: number, offset: number) => {
+    const rounds = loop.rounds.slice();
+    const [round] = rounds.splice(index, 1);
+    rounds.splice(index + offset, 0, round);
+    onChange({ ...loop, rounds });
+  };
+
+  const removeRound = (index: number) =>
+    onChange({ ...loop, rounds: loop.rounds.filter((_, i) => i !== index) });
+
+  return (
+    <div data-component="LoopEditor">
+      <label className="field">
+        Loop name
+        <input
+          type="text"
+          value={loop.name}
+          onChange={(e) => onChange({ ...loop, name: e.target.value })}
+        />
+      </label>
+      {loop.rounds.map((round, i) => (
+        <div className="round" key={round.id}>
+          <div className="round-header">
+            <span>Round {i + 1}</span>
+            <div className="round-actions">
+              <button
+                type="button"
+                aria-label="Move round up"
+                disabled={i === 0}
+                onClick={() => moveRound(i, -1)}
+              >
+                <ArrowUp />
+              </button>
+              <button
+                type="button"
+                aria-label="Move round down"
+                disabled={i === loop.rounds.length - 1}
+                onClick={() => moveRound(i, 1)}
+              >
+                <ArrowDown />
+              </button>
+              <button
+                type="button"
+                aria-label="Remove round"
+                onClick={() => removeRound(i)}
+              >
+                <X />
+              </button>
+            </div>
+          </div>
+          <label className="field">
+            Type
+            <select
+              value={round.interviewType}
+              onChange={(e) =>
+                // The question and rubric belong to the previous type
+                updateRound(i, {
+                  interviewType: e.target.value as InterviewType,
+                  questionId: '',
+                  rubricId: '',
+                })
+              }
+            >
+              {INTERVIEW_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {INTERVIEW_TYPE_INFO[type].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            Interviewer
+            <select
+              value={round.personaId}
+              onChange={(e) => updateRound(i, { personaId: e.target.value })}
+            >
+              {personas.map((persona) => (
+                <option key={persona.id} value={persona.id}>
+                  {personaLabel(persona)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            Question
+            <select
+              value={round.questionId}
+              onChange={(e) => updateRound(i, { questionId: e.target.value })}
+            >
+              <option value="">Interviewer's choice</option>
+              {questions
+                .filter((q) => q.interviewType === round.interviewType)
+                .map((q) => (
+                  <option key={q.id} value={q.id}>
+                    {q.title}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="field">
+            Length
+            <select
+              value={round.durationMinutes}
+              onChange={(e) =>
+                updateRound(i, { durationMinutes: Number(e.target.value) })
+              }
+            >
+              {INTERVIEW_DURATIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            Rubric
+            <select
+              value={round.rubricId}
+              onChange={(e) => updateRound(i, { rubricId: e.target.value })}
+            >
+              <option value="">Default</option>
+              {rubrics
+                .filter((r) => r.interviewType === round.interviewType)
+                .map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+        </div>
+      ))}
+      <div className="loop-actions">
+        <Button
+          label="Add Round"
+          icon={Plus}
+          onClick={() =>
+            onChange({ ...loop, rounds: loop.rounds.concat(createRound()) })
+          }
+        />
+        <Button
+          label="Start Loop"
+          icon={Play}
+          buttonStyle="action"
+          disabled={!loop.rounds.length}
+          onClick={onStart}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { X } from 'react-feather';
+
+import { DEFAULT_PERSONA, Persona } from '../../personas';
+import { Question } from '../../questions';
+import { Rubric } from '../../rubrics';
+import {
+  InterviewLoop,
+  LoopRun,
+  isLoopComplete,
+  startLoopRun,
+} from '../../utils/interview_loop';
+import { Button } from '../button/Button';
+import { LoopDebrief } from '../loop_debrief/LoopDebrief';
+import { LoopEditor } from '../loop_editor/LoopEditor';
+
+import './LoopPanel.scss';
+
+/**
+ * Interview loop in the configuration panel: the editor, the loop in
+ * progress with its next round, or the debrief once every round is done
+ */
+export function LoopPanel({
+  loop,
+  run,
+  personas,
+  questions,
+  rubrics,
+  onChange,
+  onRunChange,
+}: {
+  loop: InterviewLoop;
+  run: LoopRun | null;
+  personas: Persona[];
+  questions: Question[];
+  rubrics: Rubric[];
+  onChange: (loop: InterviewLoop) => void;
+  onRunChange: (run: LoopRun | null) => void;
+}) {
+  const nextRound = run?.loop.rounds[run.round];
+  if (run && isLoopComplete(run)) {
+    return (
+      <div data-component="LoopPanel">
+        <div className="event-item-title">{run.loop.name} Debrief:</div>
+        <LoopDebrief results={run.results} />
+        <div className="loop-status">
+          <Button
+            label="Close Loop"
+            icon={X}
+            onClick={() => onRunChange(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+  if (run && nextRound) {
+    const interviewer =
+      personas.find((p) => p.id === nextRound.personaId) || DEFAULT_PERSONA;
+    return (
+      <div data-component="LoopPanel">
+        <div className="loop-status">
+          <span>
+            {run.loop.name}: round {run.round + 1} of {run.loop.rounds.length},
+            with {interviewer.name}
+          </span>
+          <Button
+            label="Abandon Loop"
+            icon={X}
+            onClick={() => onRunChange(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div data-component="LoopPanel">
+      <details className="loop-settings">
+        <summary>Interview Loop</summary>
+        <LoopEditor
+          loop={loop}
+          personas={personas}
+          questions={questions}
+          rubrics={rubrics}
+          onChange={onChange}
+          onStart={() => onRunChange(startLoopRun(loop))}
+        />
+      </details>
+    </div>
+  );
+}
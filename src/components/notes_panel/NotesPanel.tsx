@@ -0,0 +1,58 @@
+import { FileText } from 'react-feather';
+
+import { Button } from '../button/Button';
+
+import './NotesPanel.scss';
+
+/**
+ * Outline for one answer: situation, task, action and result
+ */
+export const STAR_OUTLINE = `Situation:
+Task:
+Action:
+Result:
+`;
+
+/**
+ * Scratchpad for behavioral interviews, used instead of the code editor
+ * Notes are saved with the session but never sent to the interviewer
+ * Without onChange it is read-only
+ */
+export function NotesPanel({
+  notes,
+  onChange,
+}: {
+  notes: string;
+  onChange?: (notes: string) => void;
+}) {
+  return (
+    <div data-component="NotesPanel">
+      {onChange && (
+        <div className="notes-actions">
+          <span className="notes-privacy">
+            Only you see these notes; the interviewer does not.
+          </span>
+          <Button
+            label="Add STAR Outline"
+            icon={FileText}
+            onClick={() =>
+              onChange(
+                notes.trim()
+                  ? `${notes.trimEnd()}\n\n${STAR_OUTLINE}`
+                  : STAR_OUTLINE
+              )
+            }
+          />
+        </div>
+      )}
+      <textarea
+        value={notes}
+        readOnly={!onChange}
+        placeholder="Jot down the stories you want to tell..."
+        aria-label="Interview notes"
+        spellCheck
+        onChange={(e) => onChange?.(e.target.value)}
+      />
+    </div>
+  );
+}
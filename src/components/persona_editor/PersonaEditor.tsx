@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'react-feather';
+
+import {
+  FOLLOW_UP_DEPTHS,
+  HINT_GENEROSITY,
+  INTERRUPTION_LEVELS,
+  PERSONAS,
+  Persona,
+  REALTIME_VOICES,
+  SPEAKING_SPEEDS,
+  parsePersonaFile,
+  personaLabel,
+  validatePersona,
+} from '../../personas';
+import { downloadFile } from '../../utils/report';
+import { Button } from '../button/Button';
+
+import './PersonaEditor.scss';
+
+/**
+ * Choice fields of the form, with the values each can take
+ */
+const CHOICES: [keyof Persona, string, readonly string[]][] = [
+  ['voice', 'Voice', REALTIME_VOICES],
+  ['speakingSpeed', 'Speaking speed', SPEAKING_SPEEDS],
+  ['hintGenerosity', 'Hints', HINT_GENEROSITY],
+  ['interruptions', 'Interrupts', INTERRUPTION_LEVELS],
+  ['followUpDepth', 'Follow-ups', FOLLOW_UP_DEPTHS],
+];
+
+const isPreset = (persona: Persona) =>
+  PERSONAS.some(({ id }) => id === persona.id);
+
+/**
+ * Form for one persona; presets are saved as a copy
+ */
+function PersonaForm({
+  persona,
+  onSave,
+  onDelete,
+}: {
+  persona: Persona;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState(persona);
+  const [error, setError] = useState('');
+  const preset = isPreset(persona);
+
+  const update = (changes: Partial<Persona>) =>
+    setDraft((draft) => ({ ...draft, ...changes }));
+
+  const save = () => {
+    try {
+      onSave(
+        validatePersona({
+          ...draft,
+          id: preset ? `${persona.id}-${crypto.randomUUID()}` : draft.id,
+        })
+      );
+      setError('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="persona-form">
+      <label className="field">
+        Name
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </label>
+      <label className="field">
+        Personality
+        <input
+          type="text"
+          value={draft.personality}
+          placeholder="e.g. friendly"
+          onChange={(e) => update({ personality: e.target.value })}
+        />
+      </label>
+      {CHOICES.map(([key, label, values]) => (
+        <label className="field" key={key}>
+          {label}
+          <select
+            value={draft[key] as string}
+            onChange={(e) => update({ [key]: e.target.value })}
+          >
+            {values.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+      <textarea
+        value={draft.styleNotes}
+        placeholder="Style notes, e.g. tone, pet topics, what impresses them"
+        aria-label="Style notes"
+        onChange={(e) => update({ styleNotes: e.target.value })}
+      />
+      {error && <div className="persona-error">{error}</div>}
+      <div className="persona-actions">
+        <Button
+          label={preset ? 'Save as Copy' : 'Save'}
+          icon={Save}
+          onClick={save}
+        />
+        {!preset && (
+          <Button
+            label="Delete"
+            icon={Trash2}
+            onClick={() => onDelete(persona.id)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Interviewer persona picker and editor, with JSON import and export
+ * Personas set the interviewer's name, voice, style and turn-taking
+ */
+export function PersonaEditor({
+  personas,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+}: {
+  personas: Persona[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onImport: (personas: Persona[]) => void;
+}) {
+  const [importError, setImportError] = useState('');
+
+  const selected = personas.find((p) => p.id === selectedId) || personas[0];
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parsePersonaFile(await file.text(), file.name);
+      setImportError('');
+      onImport(imported);
+      onSelect(imported[0].id);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  return (
+    <div data-component="PersonaEditor">
+      <div className="selection">
+        <select
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label="Persona"
+        >
+          {personas.map((p) => (
+            <option key={p.id} value={p.id}>
+              {personaLabel(p)}
+            </option>
+          ))}
+        </select>
+        <label className="import">
+          <Upload />
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) {
+                importFile(file);
+              }
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          className="export"
+          onClick={() =>
+            downloadFile(
+              `persona-${selected.id}.json`,
+              JSON.stringify(selected, null, 2),
+              'application/json'
+            )
+          }
+        >
+          <Download />
+          Export
+        </button>
+      </div>
+      {importError && <div className="persona-error">{importError}</div>}
+      <div className="preview">
+        Voice {selected.voice} · {selected.speakingSpeed} pace ·{' '}
+        {selected.hintGenerosity} hints · interrupts {selected.interruptions} ·{' '}
+        {selected.followUpDepth} follow-ups
+      </div>
+      <details>
+        <summary>Edit Persona</summary>
+        <PersonaForm
+          key={selected.id}
+          persona={selected}
+          onSave={(persona) => {
+            onSave(persona);
+            onSelect(persona.id);
+          }}
+          onDelete={onDelete}
+        />
+      </details>
+    </div>
+  );
+}
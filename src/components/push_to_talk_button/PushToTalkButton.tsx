@@ -0,0 +1,56 @@
+import { Button } from '../button/Button';
+import { describeKey } from '../../utils/push_to_talk';
+
+import './PushToTalkButton.scss';
+
+/**
+ * Hold to talk, with the pointer, a touch or Space/Enter while focused
+ * Releasing outside the button, or leaving it, still ends the turn
+ */
+export function PushToTalkButton({
+  isRecording,
+  hotkey,
+  onStart,
+  onStop,
+}: {
+  isRecording: boolean;
+  hotkey: string;
+  onStart: () => void;
+  onStop: () => void;
+}) {
+  return (
+    <div data-component="PushToTalkButton">
+      <Button
+        label={isRecording ? 'Release to Send' : 'Speak'}
+        buttonStyle={isRecording ? 'alert' : 'regular'}
+        aria-pressed={isRecording}
+        aria-keyshortcuts={hotkey || undefined}
+        title={
+          hotkey
+            ? `Hold to talk, or hold ${describeKey(hotkey)}`
+            : 'Hold to talk'
+        }
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onStart();
+        }}
+        onPointerUp={onStop}
+        onPointerCancel={onStop}
+        onContextMenu={(e) => e.preventDefault()}
+        onKeyDown={(e) => {
+          if (e.key === ' ' || e.key === 'Enter') {
+            e.preventDefault();
+            onStart();
+          }
+        }}
+        onKeyUp={(e) => {
+          if (e.key === ' ' || e.key === 'Enter') {
+            e.preventDefault();
+            onStop();
+          }
+        }}
+        onBlur={onStop}
+      />
+    </div>
+  );
+}
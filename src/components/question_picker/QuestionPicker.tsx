@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Shuffle, Upload } from 'react-feather';
+
+import {
+  Question,
+  DIFFICULTIES,
+  filterQuestions,
+  randomQuestion,
+  collectValues,
+  parseQuestionFile,
+} from '../../questions';
+import { Button } from '../button/Button';
+
+import './QuestionPicker.scss';
+
+export function QuestionPicker({
+  questions,
+  selectedId,
+  onSelect,
+  onImport = () => {},
+}: {
+  questions: Question[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onImport?: (questions: Question[]) => void;
+}) {
+  const [difficulty, setDifficulty] = useState('');
+  const [tag, setTag] = useState('');
+  const [company, setCompany] = useState('');
+  const [importError, setImportError] = useState('');
+
+  const filtered = filterQuestions(questions, { difficulty, tag, company });
+  const selected = questions.find((q) => q.id === selectedId) || null;
+
+  const pickRandom = () => {
+    const candidates = filtered.filter((q) => q.id !== selectedId);
+    const question = randomQuestion(candidates.length ? candidates : filtered);
+    if (question) {
+      onSelect(question.id);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseQuestionFile(await file.text(), file.name);
+      setImportError('');
+      onImport(imported);
+      onSelect(imported[0].id);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  return (
+    <div data-component="QuestionPicker">
+      <div className="filters">
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value)}
+          aria-label="Difficulty"
+        >
+          <option value="">Any difficulty</option>
+          {DIFFICULTIES.map((d) => (
+            <option key={d} value={d}>
+              {d}
+            </option>
+          ))}
+        </select>
+        <select
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          aria-label="Topic"
+        >
+          <option value="">Any topic</option>
+          {collectValues(questions, 'tags').map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select
+          value={company}
+          onChange={(e) => setCompany(e.target.value)}
+          aria-label="Company"
+        >
+          <option value="">Any company</option>
+          {collectValues(questions, 'companies').map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="selection">
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label="Question"
+        >
+          <option value="">Interviewer's choice</option>
+          {selected && !filtered.includes(selected) && (
+            <option value={selected.id}>{selected.title}</option>
+          )}
+          {filtered.map((q) => (
+            <option key={q.id} value={q.id}>
+              {q.title} ({q.difficulty})
+            </option>
+          ))}
+        </select>
+        <Button
+          label="Random"
+          icon={Shuffle}
+          buttonStyle="flush"
+          disabled={!filtered.length}
+          onClick={pickRandom}
+        />
+        <label className="import">
+          <Upload />
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) {
+                importFile(file);
+              }
+            }}
+          />
+        </label>
+      </div>
+      {importError && <div className="import-error">{importError}</div>}
+      {selected && (
+        <div className="preview">
+          <div className="preview-meta">
+            {[selected.difficulty, ...selected.tags].join(' · ')}
+          </div>
+          <div className="preview-statement">{selected.statement}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import { Pause, Play, SkipBack, SkipForward } from 'react-feather';
+
+import { InterviewSession } from '../../utils/session_store';
+import {
+  ReplayLane,
+  ReplayPlayer,
+  buildReplay,
+  formatReplayTime,
+  itemsAt,
+  laneAmplitudes,
+  snapshotAt,
+} from '../../utils/replay';
+import { WavRenderer } from '../../utils/wav_renderer';
+import { Button } from '../button/Button';
+import { Transcript } from '../transcript/Transcript';
+
+import './ReplayViewer.scss';
+
+const SKIP_MS = 10_000;
+
+const LANES: { lane: ReplayLane; label: string; color: string }[] = [
+  { lane: 'interviewer', label: 'Interviewer', color: '#10b981' },
+  { lane: 'candidate', label: 'Candidate', color: '#3b82f6' },
+];
+
+/**
+ * Waveform of a lane's audio across the whole interview
+ */
+function LaneCanvas({
+  amplitudes,
+  color,
+}: {
+  amplitudes: (buckets: number) => Float32Array;
+  color: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      return;
+    }
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+    const buckets = Math.max(1, Math.floor(canvas.width / 3));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    WavRenderer.drawBars(
+      canvas,
+      ctx,
+      amplitudes(buckets),
+      color,
+      buckets,
+      2,
+      1,
+      true
+    );
+  }, [amplitudes, color]);
+
+  return <canvas ref={canvasRef} />;
+}
+
+/**
+ * Plays back a saved session on a single timeline: both speakers' audio
+ * as waveform lanes, the transcript so far and the code at that moment
+ */
+export function ReplayViewer({ session }: { session: InterviewSession }) {
+  const replay = useMemo(() => buildReplay(session), [session]);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    const player = new ReplayPlayer(replay);
+    playerRef.current = player;
+    setPositionMs(0);
+    setIsPlaying(false);
+    return () => {
+      player.close();
+    };
+  }, [replay]);
+
+  /**
+   * Follow the player while it plays, and stop at the end
+   */
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      const player = playerRef.current;
+      if (!player) {
+        return;
+      }
+      const position = player.position();
+      setPositionMs(position);
+      if (position >= replay.durationMs) {
+        player.pause();
+        setIsPlaying(false);
+        return;
+      }
+      frame = window.requestAnimationFrame(tick);
+    };
+    frame = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(frame);
+  }, [isPlaying, replay]);
+
+  const togglePlaying = async () => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    if (isPlaying) {
+      player.pause();
+      setIsPlaying(false);
+    } else {
+      await player.play(
+        positionMs >= replay.durationMs ? 0 : player.position()
+      );
+      setIsPlaying(true);
+    }
+  };
+
+  const seek = (toMs: number) => {
+    const atMs = Math.max(0, Math.min(replay.durationMs, toMs));
+    playerRef.current?.seek(atMs);
+    setPositionMs(atMs);
+  };
+
+  /**
+   * Click anywhere on the lanes to jump there
+   */
+  const seekToPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * replay.durationMs);
+  };
+
+  const amplitudes = useMemo(
+    () =>
+      Object.fromEntries(
+        LANES.map(({ lane }) => [
+          lane,
+          (buckets: number) => laneAmplitudes(replay, lane, buckets),
+        ])
+      ),
+    [replay]
+  );
+
+  const items = itemsAt(replay, positionMs);
+  const snapshot = snapshotAt(replay, positionMs);
+  const code = replay.codeAt ? replay.codeAt(positionMs) : snapshot?.code || '';
+  const fraction = replay.durationMs ? positionMs / replay.durationMs : 0;
+
+  useEffect(() => {
+    const transcript = transcriptRef.current;
+    if (transcript) {
+      transcript.scrollTop = transcript.scrollHeight;
+    }
+  }, [items.length]);
+
+  if (!replay.durationMs) {
+    return <div className="session-meta">Nothing to replay</div>;
+  }
+
+  return (
+    <div data-component="ReplayViewer">
+      <div className="replay-controls">
+        <Button
+          icon={SkipBack}
+          buttonStyle="flush"
+          label="10s"
+          onClick={() => seek(positionMs - SKIP_MS)}
+        />
+        <Button
+          icon={isPlaying ? Pause : Play}
+          buttonStyle="action"
+          label={isPlaying ? 'Pause' : 'Play'}
+          onClick={togglePlaying}
+        />
+        <Button
+          icon={SkipForward}
+          iconPosition="end"
+          buttonStyle="flush"
+          label="10s"
+          onClick={() => seek(positionMs + SKIP_MS)}
+        />
+        <div className="replay-time">
+          {formatReplayTime(positionMs)} / {formatReplayTime(replay.durationMs)}
+        </div>
+        <input
+          type="range"
+          aria-label="Replay position"
+          min={0}
+          max={replay.durationMs}
+          step={100}
+          value={positionMs}
+          onChange={(e) => seek(Number(e.target.value))}
+        />
+      </div>
+      <div className="replay-lanes">
+        <div className="lane-labels">
+          {LANES.map(({ lane, label }) => (
+            <div key={lane}>{label}</div>
+          ))}
+          <div>Events</div>
+        </div>
+        <div className="lane-tracks" onClick={seekToPointer}>
+          {LANES.map(({ lane, color }) => (
+            <div className="lane" key={lane}>
+              <LaneCanvas amplitudes={amplitudes[lane]} color={color} />
+            </div>
+          ))}
+          <div className="lane markers">
+            {replay.markers.map((marker, i) => (
+              <div
+                key={i}
+                className={`marker ${marker.type.split('.')[0]}`}
+                style={{ left: `${(100 * marker.atMs) / replay.durationMs}%` }}
+                title={`${formatReplayTime(marker.atMs)} ${marker.label}`}
+              />
+            ))}
+          </div>
+          <div className="playhead" style={{ left: `${fraction * 100}%` }} />
+        </div>
+      </div>
+      <div className="replay-main">
+        <div className="replay-column">
+          <div className="content-block-title">Transcript</div>
+          <div className="replay-transcript" ref={transcriptRef}>
+            <Transcript items={items} />
+          </div>
+          <div className="content-block-title">Events</div>
+          <div className="replay-events">
+            {replay.markers.map((marker, i) => (
+              <div
+                key={i}
+                className={`replay-event ${
+                  marker.atMs <= positionMs ? 'past' : ''
+                }`}
+                onClick={() => seek(marker.atMs)}
+              >
+                <span className="offset">{formatReplayTime(marker.atMs)}</span>{' '}
+                {marker.label}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="replay-column code">
+          <div className="content-block-title">Code</div>
+          <div className="session-meta">
+            {replay.codeAt
+              ? 'Typing playback'
+              : snapshot
+              ? `${snapshot.reason} at ${formatReplayTime(snapshot.atMs)}`
+              : 'No code yet'}
+          </div>
+          <div className="monaco-editor-container">
+            <Editor
+              height="100%"
+              language={snapshot?.language || session.config.language}
+              theme="vs-dark"
+              value={code}
+              options={{ readOnly: true, automaticLayout: true }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Download, Printer } from 'react-feather';
+
+import { InterviewSession } from '../../utils/session_store';
+import {
+  buildHtmlReport,
+  buildMarkdownReport,
+  downloadFile,
+  printReport,
+  reportFilename,
+} from '../../utils/report';
+import { Button } from '../button/Button';
+
+import './ReportActions.scss';
+
+export function ReportActions({ session }: { session: InterviewSession }) {
+  return (
+    <div data-component="ReportActions">
+      <Button
+        label="Markdown"
+        icon={Download}
+        buttonStyle="flush"
+        onClick={() =>
+          downloadFile(
+            reportFilename(session, 'md'),
+            buildMarkdownReport(session),
+            'text/markdown'
+          )
+        }
+      />
+      <Button
+        label="HTML"
+        icon={Download}
+        buttonStyle="flush"
+        onClick={() =>
+          downloadFile(
+            reportFilename(session, 'html'),
+            buildHtmlReport(session),
+            'text/html'
+          )
+        }
+      />
+      <Button
+        label="Print / PDF"
+        icon={Printer}
+        buttonStyle="flush"
+        onClick={() => printReport(session)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Upload } from 'react-feather';
+
+import { Rubric, normalizedWeights, parseRubricFile } from '../../rubrics';
+
+import './RubricPicker.scss';
+
+export function RubricPicker({
+  rubrics,
+  selectedId,
+  onSelect,
+  onImport = () => {},
+}: {
+  rubrics: Rubric[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onImport?: (rubrics: Rubric[]) => void;
+}) {
+  const [importError, setImportError] = useState('');
+
+  const selected = rubrics.find((r) => r.id === selectedId) || null;
+  const weights = selected ? normalizedWeights(selected) : {};
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseRubricFile(await file.text(), file.name);
+      setImportError('');
+      onImport(imported);
+      onSelect(imported[0].id);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  return (
+    <div data-component="RubricPicker">
+      <div className="selection">
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label="Rubric"
+        >
+          {rubrics.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+        <label className="import">
+          <Upload />
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) {
+                importFile(file);
+              }
+            }}
+          />
+        </label>
+      </div>
+      {importError && <div className="import-error">{importError}</div>}
+      {selected && (
+        <div className="preview">
+          <div className="preview-meta">
+            Scored {selected.scale.min}-{selected.scale.max}
+            {selected.description && ` · ${selected.description}`}
+            {selected.hintPenalty?.pointsPerLevel
+              ? ` · −${selected.hintPenalty.pointsPerLevel} per hint level`
+              : ''}
+          </div>
+          {selected.dimensions.map((dimension) => (
+            <div className="preview-dimension" key={dimension.key}>
+              <span>{dimension.label}</span>
+              <span>{Math.round(weights[dimension.key] * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
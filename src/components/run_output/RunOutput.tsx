@@ -0,0 +1,106 @@
+import React from 'react';
+
+import {
+  RunResult,
+  TestRunResult,
+  describeRunResult,
+} from '../../utils/code_runner';
+
+import './RunOutput.scss';
+
+/**
+ * Output panel below the editor, shared by runs and test runs
+ * Notes when the code has changed since, as the output may be stale
+ */
+function OutputPanel({
+  status,
+  isStale,
+  stdout,
+  stderr,
+  children,
+}: {
+  status: string;
+  isStale: boolean;
+  stdout?: string;
+  stderr?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div data-component="RunOutput">
+      <div className="run-output-status">
+        {status}
+        {isStale && ' (code changed since run)'}
+      </div>
+      {stdout && <pre className="stdout">{stdout}</pre>}
+      {children}
+      {stderr && <pre className="stderr">{stderr}</pre>}
+    </div>
+  );
+}
+
+/**
+ * Output of the last Run, or the error that stopped it
+ */
+export function RunOutput({
+  run,
+  code,
+}: {
+  run: { code: string; result?: RunResult; error?: string };
+  code: string;
+}) {
+  return (
+    <OutputPanel
+      status={
+        run.error
+          ? `Error: ${run.error}`
+          : run.result
+          ? describeRunResult(run.result)
+          : ''
+      }
+      isStale={run.code !== code}
+      stdout={run.result?.stdout}
+      stderr={run.result?.stderr}
+    />
+  );
+}
+
+/**
+ * Results of the last Submit, case by case
+ * Hidden cases only show whether they passed
+ */
+export function TestRunOutput({
+  testRun,
+  code,
+}: {
+  testRun: { code: string; result?: TestRunResult; error?: string };
+  code: string;
+}) {
+  return (
+    <OutputPanel
+      status={
+        testRun.error
+          ? `Error: ${testRun.error}`
+          : testRun.result
+          ? `Tests: ${testRun.result.passed}/${testRun.result.total} passed`
+          : ''
+      }
+      isStale={testRun.code !== code}
+      stderr={testRun.result?.stderr}
+    >
+      {testRun.result?.results.map((testCase) => (
+        <div
+          key={testCase.index}
+          className={`test-case ${testCase.passed ? 'passed' : 'failed'}`}
+        >
+          {testCase.passed ? 'PASS' : 'FAIL'} {testCase.name}
+          {testCase.hidden
+            ? ' (hidden)'
+            : ` ${JSON.stringify(testCase.args)} expected ${JSON.stringify(
+                testCase.expected
+              )}, got ${testCase.error || JSON.stringify(testCase.actual)}`}
+          {testCase.durationMs !== null && ` [${testCase.durationMs}ms]`}
+        </div>
+      ))}
+    </OutputPanel>
+  );
+}
@@ -0,0 +1,72 @@
+import { formatReplayTime } from '../../utils/replay';
+import { SpeechMetrics, describeFillers } from '../../utils/speech_analytics';
+
+import './SpeechAnalytics.scss';
+
+/**
+ * Communication signals, updated as the conversation goes on
+ */
+export function SpeechAnalytics({ metrics }: { metrics: SpeechMetrics }) {
+  const candidateShare =
+    metrics.talkRatio === null ? null : Math.round(metrics.talkRatio * 100);
+  const stats = [
+    {
+      label: 'Talk time',
+      value:
+        candidateShare === null
+          ? '-'
+          : `${candidateShare}% / ${100 - candidateShare}%`,
+      detail: `Candidate ${formatReplayTime(
+        metrics.candidateTalkMs
+      )}, interviewer ${formatReplayTime(metrics.interviewerTalkMs)}`,
+    },
+    {
+      label: 'Longest silence',
+      value: formatReplayTime(metrics.longestSilenceMs),
+      detail: 'Neither side speaking',
+    },
+    {
+      label: 'Pace',
+      value:
+        metrics.wordsPerMinute === null ? '-' : `${metrics.wordsPerMinute} wpm`,
+      detail: `${metrics.candidateWords} words spoken`,
+    },
+    {
+      label: 'Filler words',
+      value: `${metrics.fillerCount}`,
+      detail: describeFillers(metrics.fillers) || 'None yet',
+    },
+    {
+      label: 'Interruptions',
+      value: `${metrics.interruptions}`,
+      detail: 'Candidate talked over the interviewer',
+    },
+  ];
+  return (
+    <div data-component="SpeechAnalytics">
+      <div className="talk-ratio" title="Candidate / interviewer talk time">
+        <div
+          className="candidate"
+          style={{ width: `${candidateShare ?? 0}%` }}
+        />
+        <div
+          className="interviewer"
+          style={{
+            width: `${candidateShare === null ? 0 : 100 - candidateShare}%`,
+          }}
+        />
+      </div>
+      <div className="stats">
+        {stats.map(({ label, value, detail }) => (
+          <div className="stat" key={label}>
+            <div className="stat-label">
+              {label}
+              <span className="stat-value">{value}</span>
+            </div>
+            <div className="stat-detail">{detail}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import './SpeechIndicator.scss';
+
+/**
+ * What the server's voice activity detection makes of the microphone:
+ * - listening: waiting for speech
+ * - speaking: speech started and has not stopped yet
+ * - thinking: turn detection is off while the candidate thinks
+ */
+export type SpeechState = 'listening' | 'speaking' | 'thinking';
+
+const LABELS: { [state in SpeechState]: string } = {
+  listening: 'Listening',
+  speaking: 'Speech detected',
+  thinking: 'Thinking mode',
+};
+
+export function SpeechIndicator({ state }: { state: SpeechState }) {
+  return (
+    <div
+      data-component="SpeechIndicator"
+      data-state={state}
+      role="status"
+      aria-live="polite"
+    >
+      <span className="dot" />
+      {LABELS[state]}
+    </div>
+  );
+}
@@ -2,15 +2,22 @@ import { useState, useEffect, useRef } from 'react';
 
 import './Toggle.scss';
 
+/**
+ * Two-way switch
+ * With labels it is a radio group of the two options, otherwise a switch;
+ * arrow keys pick an option, Space and Enter flip it
+ */
 export function Toggle({
   defaultValue = false,
   values,
   labels,
+  label,
   onChange = () => {},
 }: {
   defaultValue?: string | boolean;
   values?: string[];
   labels?: string[];
+  label?: string;
   onChange?: (isEnabled: boolean, value: string) => void;
 }) {
   if (typeof defaultValue === 'string') {
@@ -22,13 +29,30 @@ export function Toggle({
   const bgRef = useRef<HTMLDivElement>(null);
   const [value, setValue] = useState<boolean>(defaultValue);
 
-  const toggleValue = () => {
-    const v = !value;
+  const changeValue = (v: boolean) => {
+    if (v === value) {
+      return;
+    }
     const index = +v;
     setValue(v);
     onChange(v, (values || [])[index]);
   };
 
+  const toggleValue = () => changeValue(!value);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+      changeValue(false);
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+      changeValue(true);
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      toggleValue();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
   useEffect(() => {
     const leftEl = leftRef.current;
     const rightEl = rightRef.current;
@@ -41,6 +65,12 @@ export function Toggle({
         bgEl.style.left = '';
         bgEl.style.width = leftEl.offsetWidth + 'px';
       }
+      // Focus follows the selected option, as in a radio group
+      if (leftEl === document.activeElement && value) {
+        rightEl.focus();
+      } else if (rightEl === document.activeElement && !value) {
+        leftEl.focus();
+      }
     }
   }, [value]);
 
@@ -48,15 +78,32 @@ export function Toggle({
     <div
       data-component="Toggle"
       onClick={toggleValue}
+      onKeyDown={onKeyDown}
       data-enabled={value.toString()}
+      role={labels ? 'radiogroup' : 'switch'}
+      aria-label={label}
+      aria-checked={labels ? undefined : value}
+      tabIndex={labels ? undefined : 0}
     >
       {labels && (
-        <div className="label left" ref={leftRef}>
+        <div
+          className="label left"
+          ref={leftRef}
+          role="radio"
+          aria-checked={!value}
+          tabIndex={value ? -1 : 0}
+        >
           {labels[0]}
         </div>
       )}
       {labels && (
-        <div className="label right" ref={rightRef}>
+        <div
+          className="label right"
+          ref={rightRef}
+          role="radio"
+          aria-checked={value}
+          tabIndex={value ? 0 : -1}
+        >
           {labels[1]}
         </div>
       )}
@@ -0,0 +1,90 @@
+import { X } from 'react-feather';
+
+import { StoredItem } from '../../utils/session_store';
+
+import './Transcript.scss';
+
+/**
+ * Tool outputs can carry hidden test case data, so only show their summary
+ */
+const displayToolOutput = (output: string) => {
+  try {
+    return JSON.parse(output)?.summary || output;
+  } catch (e) {
+    return output;
+  }
+};
+
+/**
+ * Conversation items, as rendered live and when reopening a saved session
+ * Items can only be deleted when onDelete is provided
+ */
+export function Transcript({
+  items,
+  onDelete,
+}: {
+  items: StoredItem[];
+  onDelete?: (id: string) => void;
+}) {
+  return (
+    <div data-component="Transcript">
+      {items.map((conversationItem) => {
+        return (
+          <div className="conversation-item" key={conversationItem.id}>
+            <div className={`speaker ${conversationItem.role || ''}`}>
+              <div>
+                {(conversationItem.role || conversationItem.type).replaceAll(
+                  '_',
+                  ' '
+                )}
+              </div>
+              {onDelete && (
+                <div
+                  className="close"
+                  onClick={() => onDelete(conversationItem.id)}
+                >
+                  <X />
+                </div>
+              )}
+            </div>
+            <div className={`speaker-content`}>
+              {/* tool response */}
+              {conversationItem.type === 'function_call_output' && (
+                <div>
+                  {displayToolOutput(conversationItem.formatted.output || '')}
+                </div>
+              )}
+              {/* tool call */}
+              {!!conversationItem.formatted.tool && (
+                <div>
+                  {conversationItem.formatted.tool.name}(
+                  {conversationItem.formatted.tool.arguments})
+                </div>
+              )}
+              {!conversationItem.formatted.tool &&
+                conversationItem.role === 'user' && (
+                  <div>
+                    {conversationItem.formatted.transcript ||
+                      (conversationItem.formatted.audio?.length
+                        ? '(Awaiting transcript)'
+                        : conversationItem.formatted.text || '(Item sent)')}
+                  </div>
+                )}
+              {!conversationItem.formatted.tool &&
+                conversationItem.role === 'assistant' && (
+                  <div>
+                    {conversationItem.formatted.transcript ||
+                      conversationItem.formatted.text ||
+                      '(Truncated)'}
+                  </div>
+                )}
+              {conversationItem.formatted.file && (
+                <audio src={conversationItem.formatted.file.url} controls />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { RotateCcw } from 'react-feather';
+
+import { VAD_RANGES, VadSettings } from '../../utils/turn_detection';
+import { Button } from '../button/Button';
+
+import './TurnDetectionPanel.scss';
+
+/**
+ * Sliders for the server's voice activity detection
+ * Until tuned, the settings follow the interviewer persona
+ */
+export function TurnDetectionPanel({
+  settings,
+  isCustom,
+  onChange,
+  onReset,
+}: {
+  settings: VadSettings;
+  isCustom: boolean;
+  onChange: (settings: VadSettings) => void;
+  onReset: () => void;
+}) {
+  return (
+    <div data-component="TurnDetectionPanel">
+      {(Object.keys(VAD_RANGES) as (keyof VadSettings)[]).map((key) => {
+        const { label, min, max, step, unit } = VAD_RANGES[key];
+        return (
+          <label className="setting" key={key}>
+            <span className="setting-label">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={settings[key]}
+              onChange={(e) =>
+                onChange({ ...settings, [key]: Number(e.target.value) })
+              }
+            />
+            <span className="setting-value">
+              {settings[key]}
+              {unit}
+            </span>
+          </label>
+        );
+      })}
+      <div className="turn-detection-source">
+        {isCustom ? 'Tuned by hand' : "Following the persona's defaults"}
+        {isCustom && (
+          <Button
+            label="Reset"
+            icon={RotateCcw}
+            buttonStyle="flush"
+            onClick={onReset}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
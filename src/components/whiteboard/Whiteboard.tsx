@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import { ArrowRight, Plus, Trash2 } from 'react-feather';
+
+import {
+  Diagram,
+  DiagramNode,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  WHITEBOARD_HEIGHT,
+  WHITEBOARD_WIDTH,
+  addEdge,
+  addNode,
+  moveNode,
+  relabel,
+  removeElement,
+} from '../../utils/diagram';
+import { Button } from '../button/Button';
+
+import './Whiteboard.scss';
+
+/**
+ * Where the line between two boxes' centres leaves the first box
+ */
+const boxEdge = (from: DiagramNode, to: DiagramNode) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const scale = Math.min(
+    dx ? NODE_WIDTH / 2 / Math.abs(dx) : Infinity,
+    dy ? NODE_HEIGHT / 2 / Math.abs(dy) : Infinity
+  );
+  return { x: from.x + dx * scale, y: from.y + dy * scale };
+};
+
+/**
+ * Diagram canvas for system-design interviews
+ * Add Box creates a component, Connect joins two clicked boxes with an
+ * arrow, double-clicking renames, and Delete removes the selection
+ * Without onChange it is read-only
+ */
+export function Whiteboard({
+  diagram,
+  onChange,
+}: {
+  diagram: Diagram;
+  onChange?: (diagram: Diagram) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+  const readOnly = !onChange;
+
+  const nodes = Object.fromEntries(diagram.nodes.map((n) => [n.id, n]));
+
+  /**
+   * Pointer position in whiteboard units
+   */
+  const toWhiteboard = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) {
+      return { x: 0, y: 0 };
+    }
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    return { x, y };
+  };
+
+  const addBox = () => {
+    const label = prompt('Component name', 'Service');
+    if (label?.trim()) {
+      onChange?.(addNode(diagram, label.trim()));
+    }
+  };
+
+  const rename = (id: string, current: string) => {
+    const label = prompt('Label', current);
+    if (label !== null) {
+      onChange?.(relabel(diagram, id, label.trim()));
+    }
+  };
+
+  const deleteSelected = () => {
+    if (selectedId) {
+      onChange?.(removeElement(diagram, selectedId));
+      setSelectedId(null);
+    }
+  };
+
+  const onNodePointerDown = (e: React.PointerEvent, node: DiagramNode) => {
+    if (readOnly) {
+      return;
+    }
+    e.stopPropagation();
+    if (isConnecting && selectedId && nodes[selectedId]) {
+      onChange(addEdge(diagram, selectedId, node.id));
+      setIsConnecting(false);
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(node.id);
+    const { x, y } = toWhiteboard(e);
+    dragRef.current = { id: node.id, dx: node.x - x, dy: node.y - y };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || readOnly) {
+      return;
+    }
+    const { x, y } = toWhiteboard(e);
+    onChange(moveNode(diagram, drag.id, x + drag.dx, y + drag.dy));
+  };
+
+  return (
+    <div data-component="Whiteboard">
+      {!readOnly && (
+        <div className="whiteboard-actions">
+          <Button label="Add Box" icon={Plus} onClick={addBox} />
+          <Button
+            label={isConnecting ? 'Pick Target' : 'Connect'}
+            icon={ArrowRight}
+            buttonStyle={isConnecting ? 'action' : 'regular'}
+            disabled={!selectedId || !nodes[selectedId]}
+            title="Select a box, then click the box to connect it to"
+            aria-pressed={isConnecting}
+            onClick={() => setIsConnecting(!isConnecting)}
+          />
+          <Button
+            label="Delete"
+            icon={Trash2}
+            disabled={!selectedId}
+            onClick={deleteSelected}
+          />
+        </div>
+      )}
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WHITEBOARD_WIDTH} ${WHITEBOARD_HEIGHT}`}
+        role="img"
+        aria-label={`Whiteboard with ${diagram.nodes.length} components`}
+        tabIndex={readOnly ? undefined : 0}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => (dragRef.current = null)}
+        onPointerDown={() => {
+          setSelectedId(null);
+          setIsConnecting(false);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            deleteSelected();
+          } else if (e.key === 'Escape') {
+            setIsConnecting(false);
+            setSelectedId(null);
+          }
+        }}
+      >
+        <defs>
+          <marker
+            id="whiteboard-arrow"
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="8"
+            markerHeight="8"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" />
+          </marker>
+        </defs>
+        {diagram.edges.map((edge) => {
+          const from = nodes[edge.from];
+          const to = nodes[edge.to];
+          if (!from || !to) {
+            return null;
+          }
+          const start = boxEdge(from, to);
+          const end = boxEdge(to, from);
+          return (
+            <g
+              key={edge.id}
+              className={`edge ${selectedId === edge.id ? 'selected' : ''}`}
+              onPointerDown={(e) => {
+                if (!readOnly) {
+                  e.stopPropagation();
+                  setSelectedId(edge.id);
+                  setIsConnecting(false);
+                }
+              }}
+              onDoubleClick={() => !readOnly && rename(edge.id, edge.label)}
+            >
+              {/* Wide transparent line, easier to click than the arrow */}
+              <line
+                className="hit-area"
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+              />
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                markerEnd="url(#whiteboard-arrow)"
+              />
+              {edge.label && (
+                <text x={(start.x + end.x) / 2} y={(start.y + end.y) / 2 - 6}>
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {diagram.nodes.map((node) => (
+          <g
+            key={node.id}
+            className={`node ${selectedId === node.id ? 'selected' : ''}`}
+            onPointerDown={(e) => onNodePointerDown(e, node)}
+            onDoubleClick={() => !readOnly && rename(node.id, node.label)}
+          >
+            <rect
+              x={node.x - NODE_WIDTH / 2}
+              y={node.y - NODE_HEIGHT / 2}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={6}
+            />
+            <text x={node.x} y={node.y}>
+              {node.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
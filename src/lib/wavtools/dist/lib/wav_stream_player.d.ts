@@ -18,11 +18,19 @@ export class WavStreamPlayer {
     analyser: any;
     trackSampleOffsets: {};
     interruptedTrackIds: {};
+    sinkId: string;
     /**
      * Connects the audio context and enables output to speakers
      * @returns {Promise<true>}
      */
     connect(): Promise<true>;
+    /**
+     * Sets the audio output device, applied now if connected or on .connect()
+     * Browsers without AudioContext.setSinkId always use the default output
+     * @param {string} sinkId Output device id, empty string for the default
+     * @returns {Promise<boolean>} whether the device was applied
+     */
+    setSinkId(sinkId: string): Promise<boolean>;
     /**
      * Gets the current frequency domain data from the playing track
      * @param {"frequency"|"music"|"voice"} [analysisType]
@@ -19,6 +19,7 @@ export class WavStreamPlayer {
     this.analyser = null;
     this.trackSampleOffsets = {};
     this.interruptedTrackIds = {};
+    this.sinkId = '';
   }
 
   /**
@@ -30,6 +31,9 @@ export class WavStreamPlayer {
     if (this.context.state === 'suspended') {
       await this.context.resume();
     }
+    if (this.sinkId) {
+      await this.setSinkId(this.sinkId);
+    }
     try {
       await this.context.audioWorklet.addModule(this.scriptSrc);
     } catch (e) {
@@ -43,6 +47,21 @@ export class WavStreamPlayer {
     return true;
   }
 
+  /**
+   * Sets the audio output device, applied now if connected or on .connect()
+   * Browsers without AudioContext.setSinkId always use the default output
+   * @param {string} sinkId Output device id, empty string for the default
+   * @returns {Promise<boolean>} whether the device was applied
+   */
+  async setSinkId(sinkId) {
+    this.sinkId = sinkId;
+    if (!this.context || !('setSinkId' in this.context)) {
+      return false;
+    }
+    await this.context.setSinkId(sinkId);
+    return true;
+  }
+
   /**
    * Gets the current frequency domain data from the playing track
    * @param {"frequency"|"music"|"voice"} [analysisType]
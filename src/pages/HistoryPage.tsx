@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import { ArrowLeft, Film, Trash2 } from 'react-feather';
+
+import { WavRecorder } from '../lib/wavtools/index.js';
+import {
+  InterviewSession,
+  SessionStore,
+  UploadedSession,
+  sessionRubric,
+  sessionTranscript,
+} from '../utils/session_store';
+import { LOCAL_RELAY_SERVER_URL } from '../utils/relay_client';
+import { Button } from '../components/button/Button';
+import { Transcript } from '../components/transcript/Transcript';
+import { ReportActions } from '../components/report_actions/ReportActions';
+import { EvaluationPanel } from '../components/evaluation_panel/EvaluationPanel';
+import { ReplayViewer } from '../components/replay_viewer/ReplayViewer';
+import { SpeechAnalytics } from '../components/speech_analytics/SpeechAnalytics';
+import { NotesPanel } from '../components/notes_panel/NotesPanel';
+import { Whiteboard } from '../components/whiteboard/Whiteboard';
+import { describeEditMetrics, measureEdits } from '../utils/edit_timeline';
+import { measureSessionSpeech } from '../utils/speech_analytics';
+import { interviewTypeLabel } from '../utils/interview_types';
+import { describeLoopRound } from '../utils/interview_loop';
+
+import './HistoryPage.scss';
+
+const formatDuration = (session: UploadedSession) => {
+  if (!session.endedAt) {
+    return 'unfinished';
+  }
+  const seconds = Math.round(
+    (new Date(session.endedAt).valueOf() -
+      new Date(session.startedAt).valueOf()) /
+      1000
+  );
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const describeSession = (session: UploadedSession) =>
+  [
+    session.config.questionTitle || 'Interviewer-chosen question',
+    interviewTypeLabel(session.config.interviewType),
+    describeLoopRound(session.config.loop),
+    session.config.interviewerName,
+    session.config.company,
+    session.config.language,
+    session.config.persona,
+    session.config.mode === 'text' && 'Text chat',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Read-only view of a saved session
+ */
+function SessionView({ session }: { session: InterviewSession }) {
+  const [items, setItems] = useState(session.items);
+  const [snapshotIndex, setSnapshotIndex] = useState(
+    session.codeSnapshots.length - 1
+  );
+  const snapshot = session.codeSnapshots[snapshotIndex];
+
+  /**
+   * Rebuild playable audio files from the stored PCM16 audio
+   */
+  useEffect(() => {
+    let isLoaded = true;
+    const urls: string[] = [];
+    (async () => {
+      const decoded = [];
+      for (const item of session.items) {
+        if (item.formatted.audio?.length) {
+          const file = await WavRecorder.decode(
+            item.formatted.audio,
+            24000,
+            24000
+          );
+          urls.push(file.url);
+          decoded.push({ ...item, formatted: { ...item.formatted, file } });
+        } else {
+          decoded.push(item);
+        }
+      }
+      if (isLoaded) {
+        setItems(decoded);
+      }
+    })();
+    return () => {
+      isLoaded = false;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [session]);
+
+  return (
+    <div className="session-view">
+      <div className="session-column">
+        <div className="content-block-title">
+          {new Date(session.startedAt).toLocaleString()}
+        </div>
+        <div className="session-meta">
+          {describeSession(session)} · {formatDuration(session)}
+        </div>
+        <ReportActions session={session} />
+        <Button
+          icon={Film}
+          label="Replay"
+          onClick={() =>
+            (window.location.hash = `#/history/${session.id}/replay`)
+          }
+        />
+        {session.config.questionStatement && (
+          <div className="session-question">
+            {session.config.questionStatement}
+          </div>
+        )}
+        <div className="content-block-title">Evaluation</div>
+        <EvaluationPanel
+          rubric={sessionRubric(session)}
+          evaluation={session.evaluation || null}
+          hints={session.hints}
+        />
+        <div className="content-block-title">Communication</div>
+        <SpeechAnalytics metrics={measureSessionSpeech(session)} />
+        {session.editTimeline && session.endedAt && (
+          <>
+            <div className="content-block-title">Editing Activity</div>
+            <div className="session-timeline">
+              {describeEditMetrics(
+                measureEdits(
+                  session.editTimeline,
+                  new Date(session.endedAt).valueOf() -
+                    new Date(session.startedAt).valueOf()
+                )
+              ).map((line, i) => (
+                <div key={i}>{line}</div>
+              ))}
+            </div>
+          </>
+        )}
+        <div className="content-block-title">Transcript</div>
+        <Transcript items={sessionTranscript({ ...session, items })} />
+        <div className="content-block-title">Timeline</div>
+        <div className="session-timeline">
+          {session.timeline.map((event, i) => (
+            <div key={i}>
+              {new Date(event.time).toLocaleTimeString()} {event.label}
+            </div>
+          ))}
+        </div>
+        {!!Object.keys(session.memoryKv).length && (
+          <>
+            <div className="content-block-title">set_memory()</div>
+            <pre>{JSON.stringify(session.memoryKv, null, 2)}</pre>
+          </>
+        )}
+      </div>
+      <div className="session-column code">
+        {session.diagram ? (
+          <>
+            <div className="content-block-title">Whiteboard</div>
+            <Whiteboard diagram={session.diagram} />
+          </>
+        ) : session.notes !== undefined ? (
+          <>
+            <div className="content-block-title">Notes</div>
+            <NotesPanel notes={session.notes} />
+          </>
+        ) : (
+          <>
+            <div className="content-block-title">Code</div>
+            {snapshot ? (
+              <>
+                <select
+                  value={snapshotIndex}
+                  onChange={(e) => setSnapshotIndex(parseInt(e.target.value))}
+                >
+                  {session.codeSnapshots.map((s, i) => (
+                    <option key={i} value={i}>
+                      #{i + 1} {s.reason} at{' '}
+                      {new Date(s.time).toLocaleTimeString()}
+                    </option>
+                  ))}
+                </select>
+                <div className="monaco-editor-container">
+                  <Editor
+                    height="100%"
+                    language={snapshot.language}
+                    theme="vs-dark"
+                    value={snapshot.code}
+                    options={{ readOnly: true, automaticLayout: true }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="session-meta">No code was saved</div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists saved interview sessions, or reopens one when sessionId is set,
+ * as a replay when replay is set
+ * Sessions uploaded to the relay from other browsers are listed too, and
+ * downloaded to this one when opened
+ */
+export function HistoryPage({
+  sessionId,
+  replay = false,
+}: {
+  sessionId?: string;
+  replay?: boolean;
+}) {
+  const [sessions, setSessions] = useState<InterviewSession[] | null>(null);
+  const [uploaded, setUploaded] = useState<UploadedSession[] | null>(
+    LOCAL_RELAY_SERVER_URL ? null : []
+  );
+  const [error, setError] = useState('');
+  const [relayError, setRelayError] = useState('');
+
+  useEffect(() => {
+    SessionStore.list()
+      .then(setSessions)
+      .catch((e) => setError(e.message));
+    if (LOCAL_RELAY_SERVER_URL) {
+      SessionStore.listUploaded(LOCAL_RELAY_SERVER_URL)
+        .then(setUploaded)
+        .catch((e) => {
+          setUploaded([]);
+          setRelayError(`Could not list sessions on the relay: ${e.message}`);
+        });
+    }
+  }, []);
+
+  const deleteSession = async (id: string) => {
+    if (!window.confirm('Delete this interview session?')) {
+      return;
+    }
+    await SessionStore.remove(id);
+    setSessions((sessions) => (sessions || []).filter((s) => s.id !== id));
+  };
+
+  const session = sessionId
+    ? sessions?.find((s) => s.id === sessionId)
+    : void 0;
+  const isOnRelayOnly =
+    !!sessions && !session && !!uploaded?.some((s) => s.id === sessionId);
+
+  useEffect(() => {
+    if (!sessionId || !isOnRelayOnly) {
+      return;
+    }
+    let isLoaded = true;
+    (async () => {
+      const downloaded = await SessionStore.download(
+        LOCAL_RELAY_SERVER_URL,
+        sessionId
+      );
+      await SessionStore.save(downloaded);
+      if (isLoaded) {
+        setSessions((sessions) => [downloaded, ...(sessions || [])]);
+      }
+    })().catch((e) => {
+      if (isLoaded) {
+        setRelayError(`Could not download the session: ${e.message}`);
+      }
+    });
+    return () => {
+      isLoaded = false;
+    };
+  }, [sessionId, isOnRelayOnly]);
+
+  const listed = [
+    ...(sessions || []).map((s) => ({ ...s, isLocal: true })),
+    ...(uploaded || [])
+      .filter((u) => !sessions?.some((s) => s.id === u.id))
+      .map((s) => ({ ...s, isLocal: false })),
+  ].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return (
+    <div data-component="HistoryPage">
+      <div className="content-top">
+        <Button
+          icon={ArrowLeft}
+          buttonStyle="flush"
+          label={
+            replay
+              ? 'Session'
+              : sessionId
+              ? 'All Sessions'
+              : 'Back to Interview'
+          }
+          onClick={() =>
+            (window.location.hash = replay
+              ? `#/history/${sessionId}`
+              : sessionId
+              ? '#/history'
+              : '#/')
+          }
+        />
+      </div>
+      <div className="content-main">
+        {error && <div className="session-meta">{error}</div>}
+        {relayError && <div className="session-meta">{relayError}</div>}
+        {(!sessions || !uploaded) && !error && (
+          <div className="session-meta">Loading...</div>
+        )}
+        {isOnRelayOnly && !relayError && (
+          <div className="session-meta">Downloading from the relay...</div>
+        )}
+        {sessions && uploaded && sessionId && !session && !isOnRelayOnly && (
+          <div className="session-meta">Session not found</div>
+        )}
+        {session &&
+          (replay ? (
+            <ReplayViewer session={session} />
+          ) : (
+            <SessionView session={session} />
+          ))}
+        {sessions && uploaded && !sessionId && (
+          <div className="session-list">
+            <div className="content-block-title">Interview History</div>
+            {!listed.length && (
+              <div className="session-meta">No saved interviews yet</div>
+            )}
+            {listed.map((s) => (
+              <div className="session-list-item" key={s.id}>
+                <a href={`#/history/${s.id}`}>
+                  <div>{new Date(s.startedAt).toLocaleString()}</div>
+                  <div className="session-meta">
+                    {describeSession(s)} · {formatDuration(s)}
+                    {!s.isLocal && ' · On the relay'}
+                  </div>
+                </a>
+                {s.isLocal && (
+                  <Button
+                    icon={Trash2}
+                    buttonStyle="flush"
+                    label="Delete"
+                    onClick={() => deleteSession(s.id)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
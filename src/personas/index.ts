@@ -0,0 +1,130 @@
+import {
+  FollowUpDepth,
+  HintGenerosity,
+  InterruptionLevel,
+  Persona,
+  SpeakingSpeed,
+  validatePersona,
+} from './schema';
+import { VadSettings } from '../utils/turn_detection';
+
+import friendly from './bank/friendly.json';
+import strict from './bank/strict.json';
+import curious from './bank/curious.json';
+import patient from './bank/patient.json';
+
+export type {
+  FollowUpDepth,
+  HintGenerosity,
+  InterruptionLevel,
+  Persona,
+  SpeakingSpeed,
+} from './schema';
+export {
+  FOLLOW_UP_DEPTHS,
+  HINT_GENEROSITY,
+  INTERRUPTION_LEVELS,
+  PERSONA_SCHEMA_VERSION,
+  PersonaValidationError,
+  REALTIME_VOICES,
+  SPEAKING_SPEEDS,
+  validatePersona,
+} from './schema';
+
+/**
+ * Presets bundled with the app, validated at load time
+ * The first one is the default
+ */
+export const PERSONAS: Persona[] = [friendly, strict, curious, patient].map(
+  (data) => validatePersona(data)
+);
+
+export const DEFAULT_PERSONA = PERSONAS[0];
+
+/**
+ * e.g. "Sarah (friendly)"
+ */
+export const personaLabel = (persona: Persona) =>
+  `${persona.name} (${persona.personality})`;
+
+/**
+ * The Realtime API has no speaking rate setting, so speed is asked for
+ * in the instructions
+ */
+const SPEAKING_SPEED_STYLE: { [speed in SpeakingSpeed]: string } = {
+  slow: 'Speak slowly and clearly, pausing between points.',
+  normal: 'Speak at a natural, moderate pace.',
+  fast: 'Speak briskly and keep the interview moving.',
+};
+
+const HINT_STYLE: { [generosity in HintGenerosity]: string } = {
+  sparing:
+    'Be sparing with hints: let the candidate work through difficulty, and only give one when they are clearly stuck or ask for it.',
+  balanced:
+    'Give a hint when the candidate has been stuck for a few minutes or asks for one.',
+  generous:
+    'Be generous with hints: offer one as soon as the candidate hesitates or heads the wrong way.',
+};
+
+const INTERRUPTION_STYLE: { [level in InterruptionLevel]: string } = {
+  rarely:
+    'Do not interrupt; wait until the candidate has clearly finished speaking.',
+  sometimes:
+    'Let the candidate finish their thought, but politely redirect them if they go off track for long.',
+  often:
+    'Interrupt readily to redirect, to probe a claim, or to keep answers short.',
+};
+
+const FOLLOW_UP_STYLE: { [depth in FollowUpDepth]: string } = {
+  light: 'Ask few follow-up questions, at most one per answer.',
+  moderate: 'Ask follow-up questions where an answer is vague or incomplete.',
+  deep: 'Probe deeply: keep asking follow-up questions until you understand the reasoning behind each answer and its limits.',
+};
+
+/**
+ * Persona as plain text for the interviewer's instructions
+ */
+export const describePersona = (persona: Persona) =>
+  [
+    SPEAKING_SPEED_STYLE[persona.speakingSpeed],
+    HINT_STYLE[persona.hintGenerosity],
+    INTERRUPTION_STYLE[persona.interruptions],
+    FOLLOW_UP_STYLE[persona.followUpDepth],
+    persona.styleNotes,
+  ]
+    .filter(Boolean)
+    .map((line) => `- ${line}`)
+    .join('\n');
+
+/**
+ * A persona that interrupts often takes shorter pauses as the end of the
+ * candidate's turn, and one that rarely does needs louder speech to count
+ */
+const INTERRUPTION_VAD_SETTINGS: {
+  [level in InterruptionLevel]: VadSettings;
+} = {
+  rarely: { threshold: 0.6, prefixPaddingMs: 300, silenceDurationMs: 1000 },
+  sometimes: { threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 600 },
+  often: { threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 350 },
+};
+
+/**
+ * Turn detection settings for the persona, unless tuned by hand
+ */
+export const personaVadSettings = (persona: Persona) =>
+  INTERRUPTION_VAD_SETTINGS[persona.interruptions];
+
+/**
+ * Parses an imported persona file: a single persona or an array of them
+ */
+export const parsePersonaFile = (text: string, source: string) => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`"${source}" is not valid JSON`);
+  }
+  return (Array.isArray(data) ? data : [data]).map((p: any, i: number) =>
+    validatePersona(p, `${source}[${i}]`)
+  );
+};
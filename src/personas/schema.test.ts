@@ -0,0 +1,78 @@
+import { PERSONAS, parsePersonaFile, personaVadSettings } from '.';
+import { PersonaValidationError, validatePersona } from './schema';
+
+const persona = (overrides: { [key: string]: any } = {}) => ({
+  schemaVersion: 1,
+  id: 'test',
+  name: 'Alex',
+  personality: 'calm',
+  ...overrides,
+});
+
+describe('validatePersona', () => {
+  it('loads every bundled persona', () => {
+    expect(PERSONAS.length).toBeGreaterThan(0);
+  });
+
+  it('fills in the default settings', () => {
+    expect(validatePersona(persona())).toEqual({
+      ...persona(),
+      voice: 'alloy',
+      speakingSpeed: 'normal',
+      hintGenerosity: 'balanced',
+      interruptions: 'sometimes',
+      followUpDepth: 'moderate',
+      styleNotes: '',
+    });
+  });
+
+  it('lists every problem found', () => {
+    let error: PersonaValidationError | null = null;
+    try {
+      validatePersona(
+        persona({ name: '', voice: 'robot', styleNotes: 3 }),
+        'imported'
+      );
+    } catch (e) {
+      error = e as PersonaValidationError;
+    }
+    expect(error?.message).toMatch(/^Invalid persona "test"/);
+    expect(error?.issues).toEqual([
+      '"name" must be a non-empty string',
+      expect.stringMatching(/^"voice" must be one of alloy, /),
+      '"styleNotes" must be a string',
+    ]);
+  });
+});
+
+describe('parsePersonaFile', () => {
+  it('reads a single persona or an array of them', () => {
+    expect(parsePersonaFile(JSON.stringify(persona()), 'a.json')).toHaveLength(
+      1
+    );
+    expect(
+      parsePersonaFile(
+        JSON.stringify([persona(), persona({ id: 'other' })]),
+        'b.json'
+      ).map(({ id }) => id)
+    ).toEqual(['test', 'other']);
+  });
+
+  it('names the file when it is not JSON', () => {
+    expect(() => parsePersonaFile('{', 'c.json')).toThrow(
+      '"c.json" is not valid JSON'
+    );
+  });
+});
+
+describe('personaVadSettings', () => {
+  it('waits longer before replying to personas that rarely interrupt', () => {
+    const rarely = personaVadSettings(
+      validatePersona(persona({ interruptions: 'rarely' }))
+    );
+    const often = personaVadSettings(
+      validatePersona(persona({ interruptions: 'often' }))
+    );
+    expect(rarely.silenceDurationMs).toBeGreaterThan(often.silenceDurationMs);
+  });
+});
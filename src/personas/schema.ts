@@ -0,0 +1,115 @@
+/**
+ * Interviewer persona schema
+ * Bump PERSONA_SCHEMA_VERSION whenever a field is added or changes meaning
+ */
+export const PERSONA_SCHEMA_VERSION = 1;
+
+/**
+ * Voices the Realtime API can speak with
+ */
+export const REALTIME_VOICES = [
+  'alloy',
+  'ash',
+  'ballad',
+  'coral',
+  'echo',
+  'sage',
+  'shimmer',
+  'verse',
+];
+
+export const SPEAKING_SPEEDS = ['slow', 'normal', 'fast'] as const;
+export const HINT_GENEROSITY = ['sparing', 'balanced', 'generous'] as const;
+export const INTERRUPTION_LEVELS = ['rarely', 'sometimes', 'often'] as const;
+export const FOLLOW_UP_DEPTHS = ['light', 'moderate', 'deep'] as const;
+
+export type SpeakingSpeed = (typeof SPEAKING_SPEEDS)[number];
+export type HintGenerosity = (typeof HINT_GENEROSITY)[number];
+export type InterruptionLevel = (typeof INTERRUPTION_LEVELS)[number];
+export type FollowUpDepth = (typeof FOLLOW_UP_DEPTHS)[number];
+
+/**
+ * Who the interviewer is and how they behave
+ * - name is what the interviewer introduces themselves as
+ * - personality is a word or two, e.g. "friendly"
+ * - styleNotes are free-form instructions added to the prompt
+ */
+export interface Persona {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  personality: string;
+  voice: string;
+  speakingSpeed: SpeakingSpeed;
+  hintGenerosity: HintGenerosity;
+  interruptions: InterruptionLevel;
+  followUpDepth: FollowUpDepth;
+  styleNotes: string;
+}
+
+export class PersonaValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid persona "${source}":\n- ${issues.join('\n- ')}`);
+    this.name = 'PersonaValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Settings that may be left out, with the values they default to
+ */
+const OPTIONS: [keyof Persona, readonly string[], string][] = [
+  ['voice', REALTIME_VOICES, 'alloy'],
+  ['speakingSpeed', SPEAKING_SPEEDS, 'normal'],
+  ['hintGenerosity', HINT_GENEROSITY, 'balanced'],
+  ['interruptions', INTERRUPTION_LEVELS, 'sometimes'],
+  ['followUpDepth', FOLLOW_UP_DEPTHS, 'moderate'],
+];
+
+/**
+ * Checks parsed JSON against the schema
+ * Throws a PersonaValidationError listing every problem found
+ */
+export function validatePersona(data: any, source = 'persona'): Persona {
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new PersonaValidationError(source, ['must be a JSON object']);
+  }
+  const version = data.schemaVersion;
+  if (!Number.isInteger(version) || version < 1) {
+    issues.push('"schemaVersion" must be a positive integer');
+  } else if (version > PERSONA_SCHEMA_VERSION) {
+    issues.push(
+      `"schemaVersion" ${version} is newer than the supported version ${PERSONA_SCHEMA_VERSION}`
+    );
+  }
+  for (const key of ['id', 'name', 'personality']) {
+    if (typeof data[key] !== 'string' || !data[key].trim()) {
+      issues.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  for (const [key, values] of OPTIONS) {
+    if (data[key] !== undefined && !values.includes(data[key])) {
+      issues.push(`"${key}" must be one of ${values.join(', ')}`);
+    }
+  }
+  if (data.styleNotes !== undefined && typeof data.styleNotes !== 'string') {
+    issues.push('"styleNotes" must be a string');
+  }
+  if (issues.length) {
+    throw new PersonaValidationError(data.id || source, issues);
+  }
+  const defaults = Object.fromEntries(
+    OPTIONS.map(([key, , value]) => [key, data[key] ?? value])
+  );
+  return {
+    schemaVersion: version,
+    id: data.id,
+    name: data.name,
+    personality: data.personality,
+    ...defaults,
+    styleNotes: data.styleNotes || '',
+  } as Persona;
+}
@@ -0,0 +1,33 @@
+import { buildInterviewerPrompt } from '.';
+import { DEFAULT_PERSONA } from '../personas';
+import { QUESTIONS } from '../questions';
+import { DEFAULT_RUBRIC } from '../rubrics';
+
+const question = QUESTIONS.find(
+  (q) => q.interviewType === 'coding' && q.hints.length && q.referenceSolution
+)!;
+
+const config = {
+  company: '',
+  persona: DEFAULT_PERSONA,
+  language: 'python',
+  question,
+  rubric: DEFAULT_RUBRIC,
+  durationMinutes: 45,
+};
+
+describe('buildInterviewerPrompt', () => {
+  it('gives the interviewer the hints and reference solution', () => {
+    const prompt = buildInterviewerPrompt(config);
+    expect(prompt).toContain(question.hints[0]);
+    expect(prompt).toContain(question.referenceSolution!.code);
+  });
+
+  it('leaves the interviewer-only notes out of previews', () => {
+    const prompt = buildInterviewerPrompt({ ...config, hideNotes: true });
+    expect(prompt).toContain(question.statement);
+    expect(prompt).not.toContain(question.hints[0]);
+    expect(prompt).not.toContain(question.referenceSolution!.code);
+    expect(prompt).toContain('Interviewer-only notes are not shown');
+  });
+});
@@ -0,0 +1,23 @@
+import {
+  DEFAULT_INTERVIEW_TYPE,
+  InterviewType,
+} from '../utils/interview_types';
+import { buildBehavioralPrompt } from './behavioral';
+import { InterviewerPromptConfig, buildCodingPrompt } from './interviewer';
+import { buildSystemDesignPrompt } from './system_design';
+
+export type { InterviewerPromptConfig } from './interviewer';
+
+const BUILDERS: {
+  [type in InterviewType]: (config: InterviewerPromptConfig) => string;
+} = {
+  coding: buildCodingPrompt,
+  behavioral: buildBehavioralPrompt,
+  system_design: buildSystemDesignPrompt,
+};
+
+/**
+ * Interviewer system prompt for the configured interview type
+ */
+export const buildInterviewerPrompt = (config: InterviewerPromptConfig) =>
+  BUILDERS[config.interviewType || DEFAULT_INTERVIEW_TYPE](config);
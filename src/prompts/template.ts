@@ -0,0 +1,43 @@
+/**
+ * Prompt templates with named {{variables}}
+ * The variable names are part of the template's type, so rendering with a
+ * missing variable is a type error, and an unknown placeholder throws
+ */
+export interface PromptTemplate<V extends string> {
+  variables: readonly V[];
+  text: string;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export const definePromptTemplate = <V extends string>(
+  variables: readonly V[],
+  text: string
+): PromptTemplate<V> => {
+  for (const [, name] of Array.from(text.matchAll(PLACEHOLDER))) {
+    if (!(variables as readonly string[]).includes(name)) {
+      throw new Error(`Unknown template variable "${name}"`);
+    }
+  }
+  return { variables, text };
+};
+
+/**
+ * Fills in the variables; empty values drop their line entirely, so
+ * optional sections don't leave blank lines behind
+ */
+export const renderPrompt = <V extends string>(
+  template: PromptTemplate<V>,
+  values: Record<V, string>
+) =>
+  template.text
+    .split('\n')
+    .filter((line) => {
+      const names = Array.from(line.matchAll(PLACEHOLDER), ([, name]) => name);
+      return (
+        !names.length || names.some((name) => values[name as V].trim() !== '')
+      );
+    })
+    .join('\n')
+    .replace(PLACEHOLDER, (_, name: V) => values[name])
+    .trim();
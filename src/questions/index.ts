@@ -0,0 +1,79 @@
+import { Question, validateQuestion } from './schema';
+
+import longestSubstring from './bank/longest_substring.json';
+import mergeIntervals from './bank/merge_intervals.json';
+import trappingRainWater from './bank/trapping_rain_water.json';
+import twoSum from './bank/two_sum.json';
+import validParentheses from './bank/valid_parentheses.json';
+import teamConflict from './bank/team_conflict.json';
+import missedDeadline from './bank/missed_deadline.json';
+import urlShortener from './bank/url_shortener.json';
+import newsFeed from './bank/news_feed.json';
+
+export type { Question, TestCase, Difficulty } from './schema';
+export {
+  DIFFICULTIES,
+  QUESTION_SCHEMA_VERSION,
+  QuestionValidationError,
+  validateQuestion,
+} from './schema';
+
+/**
+ * Questions bundled with the app, validated at load time
+ */
+export const QUESTIONS: Question[] = [
+  twoSum,
+  validParentheses,
+  mergeIntervals,
+  longestSubstring,
+  trappingRainWater,
+  teamConflict,
+  missedDeadline,
+  urlShortener,
+  newsFeed,
+].map((data) => validateQuestion(data));
+
+export interface QuestionFilters {
+  difficulty?: string;
+  tag?: string;
+  company?: string;
+}
+
+export const filterQuestions = (
+  questions: Question[],
+  { difficulty, tag, company }: QuestionFilters
+) =>
+  questions.filter(
+    (q) =>
+      (!difficulty || q.difficulty === difficulty) &&
+      (!tag || q.tags.includes(tag)) &&
+      (!company || q.companies.includes(company))
+  );
+
+export const randomQuestion = (questions: Question[]): Question | null =>
+  questions.length
+    ? questions[Math.floor(Math.random() * questions.length)]
+    : null;
+
+/**
+ * Sorted, de-duplicated values of a list field across questions
+ */
+export const collectValues = (
+  questions: Question[],
+  field: 'tags' | 'companies'
+) => Array.from(new Set(questions.flatMap((q) => q[field]))).sort();
+
+/**
+ * Parses an imported question file: a single question or an array of them
+ */
+export const parseQuestionFile = (text: string, source: string) => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`"${source}" is not valid JSON`);
+  }
+  return (Array.isArray(data) ? data : [data]).map((q: any, i: number) =>
+    validateQuestion(q, `${source}[${i}]`)
+  );
+};
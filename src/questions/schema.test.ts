@@ -0,0 +1,87 @@
+import { QUESTIONS } from '.';
+import { QuestionValidationError, validateQuestion } from './schema';
+
+const question = (overrides: { [key: string]: any } = {}) => ({
+  schemaVersion: 3,
+  id: 'sum',
+  title: 'Sum',
+  difficulty: 'easy',
+  statement: 'Add two numbers.',
+  entryPoint: { python: 'add' },
+  testCases: [{ args: [1, 2], expected: 3 }],
+  ...overrides,
+});
+
+const issues = (data: any) => {
+  try {
+    validateQuestion(data);
+  } catch (e) {
+    return (e as QuestionValidationError).issues;
+  }
+  return [];
+};
+
+describe('validateQuestion', () => {
+  it('loads every bundled question', () => {
+    expect(QUESTIONS.length).toBeGreaterThan(0);
+  });
+
+  it('fills in optional fields', () => {
+    expect(validateQuestion(question())).toMatchObject({
+      interviewType: 'coding',
+      tags: [],
+      companies: [],
+      hints: [],
+      starterCode: {},
+    });
+  });
+
+  it('reads older versions', () => {
+    expect(validateQuestion(question({ schemaVersion: 1 })).schemaVersion).toBe(
+      1
+    );
+  });
+
+  it('lists every problem found', () => {
+    expect(
+      issues(
+        question({
+          schemaVersion: 4,
+          title: ' ',
+          interviewType: 'pairing',
+          difficulty: 'trivial',
+          tags: 'arrays',
+          testCases: [{ args: 1 }],
+        })
+      )
+    ).toEqual([
+      '"schemaVersion" 4 is newer than the supported version 3',
+      '"title" must be a non-empty string',
+      '"interviewType" must be one of coding, behavioral, system_design',
+      '"difficulty" must be one of easy, medium, hard',
+      '"tags" must be an array of strings',
+      '"testCases[0].args" must be an array',
+      '"testCases[0].expected" is required',
+    ]);
+  });
+
+  it('accepts hidden cases held on the relay by id', () => {
+    expect(
+      issues(question({ testCases: [{ id: 'h1', hidden: true }] }))
+    ).toEqual([]);
+    expect(issues(question({ testCases: [{ id: 'h1' }] }))).toEqual([
+      '"testCases[0].args" must be an array',
+      '"testCases[0].expected" is required',
+    ]);
+  });
+
+  it('needs an entry point to run test cases', () => {
+    expect(issues(question({ entryPoint: undefined }))).toEqual([
+      '"entryPoint" is required when there are test cases',
+    ]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => validateQuestion([])).toThrow(QuestionValidationError);
+  });
+});
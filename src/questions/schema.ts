@@ -0,0 +1,178 @@
+/**
+ * Question bank schema
+ * Bump QUESTION_SCHEMA_VERSION whenever a field is added or changes meaning,
+ * and keep validateQuestion() able to read every older version
+ */
+import {
+  DEFAULT_INTERVIEW_TYPE,
+  INTERVIEW_TYPES,
+  InterviewType,
+  isInterviewType,
+} from '../utils/interview_types';
+
+export const QUESTION_SCHEMA_VERSION = 3;
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/**
+ * A single call of the question's entry point, e.g. twoSum([2, 7], 9)
+ * Hidden cases are run, but their inputs and outputs are not shown
+ * to the candidate
+ * - id is since version 3; a hidden case with an id and no args is kept
+ *   on the relay (relay-server/hidden_tests), so it isn't in the bundle
+ */
+export interface TestCase {
+  id?: string;
+  name?: string;
+  args?: any[];
+  expected?: any;
+  hidden?: boolean;
+}
+
+/**
+ * An interview question
+ * - interviewType is since version 2; older questions are all coding ones
+ * - statement is markdown, shown to the interviewer model and the candidate
+ * - starterCode and entryPoint are keyed by editor language
+ * - hints are ordered from most general to most specific
+ * - referenceSolution and complexity are only shared with the interviewer
+ */
+export interface Question {
+  schemaVersion: number;
+  id: string;
+  interviewType: InterviewType;
+  title: string;
+  difficulty: Difficulty;
+  tags: string[];
+  companies: string[];
+  statement: string;
+  starterCode: { [language: string]: string };
+  entryPoint: { [language: string]: string };
+  hints: string[];
+  referenceSolution?: { language: string; code: string };
+  complexity?: { time?: string; space?: string };
+  testCases: TestCase[];
+}
+
+export class QuestionValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid question "${source}":\n- ${issues.join('\n- ')}`);
+    this.name = 'QuestionValidationError';
+    this.issues = issues;
+  }
+}
+
+const isStringMap = (value: any) =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every((v) => typeof v === 'string');
+
+const isStringArray = (value: any) =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+/**
+ * A hidden case the relay holds the inputs and expected output for
+ */
+const isRelayCase = (testCase: any) =>
+  !!testCase?.hidden &&
+  typeof testCase.id === 'string' &&
+  testCase.args === undefined;
+
+/**
+ * Checks parsed JSON against the schema and fills in optional fields
+ * Throws a QuestionValidationError listing every problem found
+ */
+export function validateQuestion(data: any, source = 'question'): Question {
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new QuestionValidationError(source, ['must be a JSON object']);
+  }
+  const version = data.schemaVersion;
+  if (!Number.isInteger(version) || version < 1) {
+    issues.push('"schemaVersion" must be a positive integer');
+  } else if (version > QUESTION_SCHEMA_VERSION) {
+    issues.push(
+      `"schemaVersion" ${version} is newer than the supported version ${QUESTION_SCHEMA_VERSION}`
+    );
+  }
+  for (const key of ['id', 'title', 'statement']) {
+    if (typeof data[key] !== 'string' || !data[key].trim()) {
+      issues.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (
+    data.interviewType !== undefined &&
+    !isInterviewType(data.interviewType)
+  ) {
+    issues.push(`"interviewType" must be one of ${INTERVIEW_TYPES.join(', ')}`);
+  }
+  if (!DIFFICULTIES.includes(data.difficulty)) {
+    issues.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  for (const key of ['tags', 'companies', 'hints']) {
+    if (data[key] !== undefined && !isStringArray(data[key])) {
+      issues.push(`"${key}" must be an array of strings`);
+    }
+  }
+  for (const key of ['starterCode', 'entryPoint']) {
+    if (data[key] !== undefined && !isStringMap(data[key])) {
+      issues.push(`"${key}" must map languages to strings`);
+    }
+  }
+  const solution = data.referenceSolution;
+  if (
+    solution !== undefined &&
+    (typeof solution?.language !== 'string' ||
+      typeof solution?.code !== 'string')
+  ) {
+    issues.push('"referenceSolution" must have a "language" and "code"');
+  }
+  if (data.complexity !== undefined && !isStringMap(data.complexity)) {
+    issues.push('"complexity" must have string "time" and "space" targets');
+  }
+  const testCases = data.testCases === undefined ? [] : data.testCases;
+  if (!Array.isArray(testCases)) {
+    issues.push('"testCases" must be an array');
+  } else {
+    testCases.forEach((testCase: any, i: number) => {
+      if (testCase?.id !== undefined && typeof testCase.id !== 'string') {
+        issues.push(`"testCases[${i}].id" must be a string`);
+      }
+      if (isRelayCase(testCase)) {
+        return;
+      }
+      if (!Array.isArray(testCase?.args)) {
+        issues.push(`"testCases[${i}].args" must be an array`);
+      }
+      if (!testCase || !('expected' in testCase)) {
+        issues.push(`"testCases[${i}].expected" is required`);
+      }
+    });
+    if (testCases.length && !Object.keys(data.entryPoint || {}).length) {
+      issues.push('"entryPoint" is required when there are test cases');
+    }
+  }
+  if (issues.length) {
+    throw new QuestionValidationError(data.id || source, issues);
+  }
+  return {
+    schemaVersion: version,
+    id: data.id,
+    interviewType: data.interviewType || DEFAULT_INTERVIEW_TYPE,
+    title: data.title,
+    difficulty: data.difficulty,
+    tags: data.tags || [],
+    companies: data.companies || [],
+    statement: data.statement,
+    starterCode: data.starterCode || {},
+    entryPoint: data.entryPoint || {},
+    hints: data.hints || [],
+    referenceSolution: solution,
+    complexity: data.complexity,
+    testCases,
+  };
+}
@@ -0,0 +1,84 @@
+import { Rubric, validateRubric } from './schema';
+
+import coding from './bank/coding.json';
+import seniorCoding from './bank/senior_coding.json';
+import behavioral from './bank/behavioral.json';
+import systemDesign from './bank/system_design.json';
+
+export type { HintPenalty, Rubric, RubricDimension } from './schema';
+export {
+  RUBRIC_SCHEMA_VERSION,
+  RubricValidationError,
+  validateRubric,
+} from './schema';
+
+/**
+ * Rubrics bundled with the app, validated at load time
+ * The first one is the default, and the first of each interview type is
+ * that type's default
+ */
+export const RUBRICS: Rubric[] = [
+  coding,
+  seniorCoding,
+  behavioral,
+  systemDesign,
+].map((data) => validateRubric(data));
+
+export const DEFAULT_RUBRIC = RUBRICS[0];
+
+/**
+ * Weights normalized to sum to 1
+ */
+export const normalizedWeights = (rubric: Rubric) => {
+  const total = rubric.dimensions.reduce((sum, d) => sum + d.weight, 0);
+  return Object.fromEntries(
+    rubric.dimensions.map((d) => [d.key, d.weight / total])
+  );
+};
+
+/**
+ * Rubric as plain text for the interviewer's instructions
+ */
+export const describeRubric = (rubric: Rubric) => {
+  const weights = normalizedWeights(rubric);
+  const lines = [
+    `Evaluation rubric "${rubric.name}", each dimension scored as an integer from ${rubric.scale.min} to ${rubric.scale.max}:`,
+  ];
+  for (const dimension of rubric.dimensions) {
+    lines.push(
+      `- ${dimension.label} (${Math.round(
+        weights[dimension.key] * 100
+      )}% of the overall score): ${dimension.description}`
+    );
+    for (const [score, descriptor] of Object.entries(dimension.levels)) {
+      lines.push(`  - ${score}: ${descriptor}`);
+    }
+  }
+  const penalty = rubric.hintPenalty;
+  if (penalty?.pointsPerLevel) {
+    const labels = rubric.dimensions
+      .filter(({ key }) => penalty.dimensions.includes(key))
+      .map(({ label }) => label);
+    lines.push(
+      `Hints cost ${penalty.pointsPerLevel} point(s) per level of the ` +
+        `most specific hint given, taken off ${labels.join(', ')} ` +
+        "automatically; don't lower scores for hints yourself."
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Parses an imported rubric file: a single rubric or an array of them
+ */
+export const parseRubricFile = (text: string, source: string) => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`"${source}" is not valid JSON`);
+  }
+  return (Array.isArray(data) ? data : [data]).map((r: any, i: number) =>
+    validateRubric(r, `${source}[${i}]`)
+  );
+};
@@ -0,0 +1,92 @@
+import { RUBRICS, normalizedWeights } from '.';
+import { RubricValidationError, validateRubric } from './schema';
+
+const rubric = (overrides: { [key: string]: any } = {}) => ({
+  schemaVersion: 3,
+  id: 'test',
+  name: 'Test',
+  scale: { min: 1, max: 4 },
+  dimensions: [
+    { key: 'depth', label: 'Depth', weight: 3, levels: { 1: 'Shallow' } },
+    { key: 'clarity', label: 'Clarity' },
+  ],
+  ...overrides,
+});
+
+const issues = (data: any) => {
+  try {
+    validateRubric(data);
+  } catch (e) {
+    return (e as RubricValidationError).issues;
+  }
+  return [];
+};
+
+describe('validateRubric', () => {
+  it('loads every bundled rubric', () => {
+    expect(RUBRICS.length).toBeGreaterThan(0);
+  });
+
+  it('fills in weights, and a hint penalty on every dimension', () => {
+    const validated = validateRubric(
+      rubric({ hintPenalty: { pointsPerLevel: 1 } })
+    );
+    expect(validated.dimensions[1]).toMatchObject({
+      weight: 1,
+      description: '',
+      levels: {},
+    });
+    expect(validated.hintPenalty).toEqual({
+      pointsPerLevel: 1,
+      dimensions: ['depth', 'clarity'],
+    });
+    expect(validateRubric(rubric()).hintPenalty).toBeNull();
+  });
+
+  it('reads rubrics without an interview type as coding ones', () => {
+    expect(validateRubric(rubric({ schemaVersion: 2 })).interviewType).toBe(
+      'coding'
+    );
+  });
+
+  it('lists every problem found', () => {
+    expect(
+      issues(
+        rubric({
+          scale: { min: 1, max: 3 },
+          dimensions: [
+            { key: 'depth', label: 'Depth', levels: { 4: 'Deep' } },
+            { key: 'depth', label: 'Again', weight: 0 },
+            { key: 'not a key', label: '' },
+          ],
+          interviewType: 'pairing',
+          hintPenalty: { pointsPerLevel: -1, dimensions: ['breadth'] },
+        })
+      )
+    ).toEqual([
+      '"dimensions[0].levels" has a score "4" outside the scale',
+      '"dimensions[1].key" duplicates "depth"',
+      '"dimensions[1].weight" must be a positive number',
+      '"dimensions[2].key" must be an identifier',
+      '"dimensions[2].label" must be a non-empty string',
+      '"interviewType" must be one of coding, behavioral, system_design',
+      '"hintPenalty.pointsPerLevel" must be a non-negative number',
+      '"hintPenalty.dimensions" must list dimension keys',
+    ]);
+  });
+
+  it('needs a scale with min below max', () => {
+    expect(issues(rubric({ scale: { min: 1, max: 1 } }))).toEqual([
+      '"scale" must have integer "min" and "max", with min < max',
+    ]);
+  });
+});
+
+describe('normalizedWeights', () => {
+  it('makes the weights sum to 1', () => {
+    expect(normalizedWeights(validateRubric(rubric()))).toEqual({
+      depth: 0.75,
+      clarity: 0.25,
+    });
+  });
+});
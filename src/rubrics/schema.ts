@@ -0,0 +1,181 @@
+/**
+ * Evaluation rubric schema
+ * Bump RUBRIC_SCHEMA_VERSION whenever a field is added or changes meaning
+ */
+import {
+  DEFAULT_INTERVIEW_TYPE,
+  INTERVIEW_TYPES,
+  InterviewType,
+  isInterviewType,
+} from '../utils/interview_types';
+
+export const RUBRIC_SCHEMA_VERSION = 3;
+
+/**
+ * One scored dimension
+ * - weight is relative; weights are normalized when combining scores
+ * - levels describe what a score means, keyed by score, e.g. { "3": "..." }
+ */
+export interface RubricDimension {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  levels: { [score: string]: string };
+}
+
+/**
+ * Points taken off for hints, since version 2
+ * - pointsPerLevel is multiplied by the deepest hint level given
+ * - dimensions are the keys it applies to
+ */
+export interface HintPenalty {
+  pointsPerLevel: number;
+  dimensions: string[];
+}
+
+export interface Rubric {
+  schemaVersion: number;
+  id: string;
+  /**
+   * Since version 3; older rubrics are all for coding interviews
+   */
+  interviewType: InterviewType;
+  name: string;
+  description: string;
+  scale: { min: number; max: number };
+  dimensions: RubricDimension[];
+  hintPenalty: HintPenalty | null;
+}
+
+export class RubricValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid rubric "${source}":\n- ${issues.join('\n- ')}`);
+    this.name = 'RubricValidationError';
+    this.issues = issues;
+  }
+}
+
+const DIMENSION_KEY = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Checks parsed JSON against the schema
+ * Throws a RubricValidationError listing every problem found
+ */
+export function validateRubric(data: any, source = 'rubric'): Rubric {
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new RubricValidationError(source, ['must be a JSON object']);
+  }
+  const version = data.schemaVersion;
+  if (!Number.isInteger(version) || version < 1) {
+    issues.push('"schemaVersion" must be a positive integer');
+  } else if (version > RUBRIC_SCHEMA_VERSION) {
+    issues.push(
+      `"schemaVersion" ${version} is newer than the supported version ${RUBRIC_SCHEMA_VERSION}`
+    );
+  }
+  for (const key of ['id', 'name']) {
+    if (typeof data[key] !== 'string' || !data[key].trim()) {
+      issues.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  const scale = data.scale;
+  if (
+    !Number.isInteger(scale?.min) ||
+    !Number.isInteger(scale?.max) ||
+    scale.min >= scale.max
+  ) {
+    issues.push('"scale" must have integer "min" and "max", with min < max');
+  }
+  if (!Array.isArray(data.dimensions) || !data.dimensions.length) {
+    issues.push('"dimensions" must be a non-empty array');
+  } else {
+    const keys = new Set<string>();
+    data.dimensions.forEach((dimension: any, i: number) => {
+      const at = `"dimensions[${i}]`;
+      if (!DIMENSION_KEY.test(dimension?.key || '')) {
+        issues.push(`${at}.key" must be an identifier`);
+      } else if (keys.has(dimension.key)) {
+        issues.push(`${at}.key" duplicates "${dimension.key}"`);
+      } else {
+        keys.add(dimension.key);
+      }
+      if (typeof dimension?.label !== 'string' || !dimension.label.trim()) {
+        issues.push(`${at}.label" must be a non-empty string`);
+      }
+      if (
+        dimension?.weight !== undefined &&
+        !(typeof dimension.weight === 'number' && dimension.weight > 0)
+      ) {
+        issues.push(`${at}.weight" must be a positive number`);
+      }
+      for (const score of Object.keys(dimension?.levels || {})) {
+        const value = Number(score);
+        if (
+          !Number.isInteger(value) ||
+          (scale && (value < scale.min || value > scale.max))
+        ) {
+          issues.push(`${at}.levels" has a score "${score}" outside the scale`);
+        }
+      }
+    });
+  }
+  if (
+    data.interviewType !== undefined &&
+    !isInterviewType(data.interviewType)
+  ) {
+    issues.push(`"interviewType" must be one of ${INTERVIEW_TYPES.join(', ')}`);
+  }
+  const penalty = data.hintPenalty;
+  if (penalty !== undefined && penalty !== null) {
+    if (
+      !(
+        typeof penalty.pointsPerLevel === 'number' &&
+        penalty.pointsPerLevel >= 0
+      )
+    ) {
+      issues.push('"hintPenalty.pointsPerLevel" must be a non-negative number');
+    }
+    const keys = Array.isArray(data.dimensions)
+      ? data.dimensions.map((dimension: any) => dimension?.key)
+      : [];
+    if (
+      penalty.dimensions !== undefined &&
+      !(
+        Array.isArray(penalty.dimensions) &&
+        penalty.dimensions.every((key: any) => keys.includes(key))
+      )
+    ) {
+      issues.push('"hintPenalty.dimensions" must list dimension keys');
+    }
+  }
+  if (issues.length) {
+    throw new RubricValidationError(data.id || source, issues);
+  }
+  return {
+    schemaVersion: version,
+    id: data.id,
+    interviewType: data.interviewType || DEFAULT_INTERVIEW_TYPE,
+    name: data.name,
+    description: data.description || '',
+    scale: { min: scale.min, max: scale.max },
+    dimensions: data.dimensions.map((dimension: any) => ({
+      key: dimension.key,
+      label: dimension.label,
+      description: dimension.description || '',
+      weight: dimension.weight ?? 1,
+      levels: dimension.levels || {},
+    })),
+    hintPenalty: penalty
+      ? {
+          pointsPerLevel: penalty.pointsPerLevel,
+          dimensions:
+            penalty.dimensions ||
+            data.dimensions.map((dimension: any) => dimension.key),
+        }
+      : null,
+  };
+}
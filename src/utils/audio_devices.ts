@@ -0,0 +1,191 @@
+import { WavRecorder } from '../lib/wavtools/index.js';
+
+/**
+ * Microphone and speaker selection, and a short record-and-play-back check
+ * run before the interview
+ * Device ids are kept in localStorage; an empty id is the system default
+ */
+export type AudioDevice = MediaDeviceInfo & { default?: boolean };
+
+export const AUDIO_CHECK_MS = 4000;
+
+/**
+ * Input RMS, as a share of full scale, below which speech is too quiet to
+ * transcribe reliably
+ */
+export const QUIET_RMS = 0.02;
+
+/**
+ * Input RMS below which nothing was picked up at all
+ */
+export const SILENT_RMS = 0.002;
+
+/**
+ * Share of samples at full scale above which the input is clipping
+ */
+export const CLIPPING_RATIO = 0.001;
+
+const CLIPPING_SAMPLE = 0x7ff0;
+
+/**
+ * Media elements and audio contexts can route to an output device in
+ * Chromium-based browsers, which the DOM types don't describe yet
+ */
+interface SinkSelectable {
+  setSinkId(sinkId: string): Promise<void>;
+}
+
+export const canSelectOutput = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Speakers and headphones, without the browser's "default" and
+ * "communications" aliases, which the empty id stands for
+ */
+export const listOutputDevices = async (): Promise<AudioDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(
+    (device) =>
+      device.kind === 'audiooutput' &&
+      device.deviceId !== 'default' &&
+      device.deviceId !== 'communications'
+  );
+};
+
+/**
+ * The device actually in use for an input selection: the chosen one while
+ * it is plugged in, otherwise the system default
+ */
+export const resolveInputDevice = (devices: AudioDevice[], deviceId: string) =>
+  devices.find((device) => deviceId && device.deviceId === deviceId) ||
+  devices.find((device) => device.default) ||
+  devices[0] ||
+  null;
+
+export interface AudioLevels {
+  samples: number;
+  /**
+   * Root mean square and peak amplitude, from 0 to 1
+   */
+  rms: number;
+  peak: number;
+  clippedRatio: number;
+}
+
+/**
+ * Levels of PCM16 audio, one chunk at a time
+ */
+export const createLevelMeter = () => {
+  let samples = 0;
+  let sumSquares = 0;
+  let peak = 0;
+  let clipped = 0;
+  return {
+    add(chunk: Int16Array) {
+      for (let i = 0; i < chunk.length; i++) {
+        const value = Math.abs(chunk[i]);
+        sumSquares += (value / 0x8000) ** 2;
+        peak = Math.max(peak, value / 0x8000);
+        if (value >= CLIPPING_SAMPLE) {
+          clipped++;
+        }
+      }
+      samples += chunk.length;
+    },
+    levels(): AudioLevels {
+      return {
+        samples,
+        rms: samples ? Math.sqrt(sumSquares / samples) : 0,
+        peak,
+        clippedRatio: samples ? clipped / samples : 0,
+      };
+    },
+  };
+};
+
+/**
+ * Problems worth fixing before the interview; none means the input is fine
+ */
+export const assessLevels = (levels: AudioLevels) => {
+  const warnings: string[] = [];
+  if (levels.rms < SILENT_RMS) {
+    warnings.push(
+      'No sound was picked up. Check that the microphone is connected ' +
+        'and not muted.'
+    );
+  } else if (levels.rms < QUIET_RMS) {
+    warnings.push(
+      'The microphone is very quiet. Move closer or raise its input volume.'
+    );
+  }
+  if (levels.clippedRatio > CLIPPING_RATIO) {
+    warnings.push(
+      'The microphone is clipping. Lower its input volume or move back.'
+    );
+  }
+  return warnings;
+};
+
+export interface AudioCheckResult {
+  url: string;
+  levels: AudioLevels;
+  warnings: string[];
+}
+
+/**
+ * Records from a microphone for a few seconds on its own WavRecorder, so it
+ * can run while no interview is connected
+ * onLevel receives the input level, from 0 to 1, as it is recorded
+ */
+export const recordAudioCheck = async ({
+  deviceId,
+  durationMs = AUDIO_CHECK_MS,
+  onLevel,
+}: {
+  deviceId: string;
+  durationMs?: number;
+  onLevel?: (level: number) => void;
+}): Promise<AudioCheckResult> => {
+  const recorder = new WavRecorder({ sampleRate: 24000 });
+  const meter = createLevelMeter();
+  await recorder.begin(deviceId || undefined);
+  let interval: ReturnType<typeof setInterval> | undefined;
+  try {
+    await recorder.record((data) => meter.add(new Int16Array(data.mono)));
+    interval = setInterval(() => {
+      const { values } = recorder.getFrequencies('voice');
+      onLevel?.(Math.max(0, ...Array.from(values)));
+    }, 50);
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+  } catch (e) {
+    await recorder.quit();
+    throw e;
+  } finally {
+    clearInterval(interval);
+    onLevel?.(0);
+  }
+  // Pausing hands the last partial chunk to the meter
+  await recorder.pause();
+  const { url } = await recorder.end();
+  const levels = meter.levels();
+  return { url, levels, warnings: assessLevels(levels) };
+};
+
+/**
+ * Plays a recording to the end on an output device
+ */
+export const playAudioCheck = async (url: string, sinkId: string) => {
+  const audio = new Audio(url);
+  if (sinkId && 'setSinkId' in audio) {
+    await (audio as HTMLAudioElement & SinkSelectable).setSinkId(sinkId);
+  }
+  const ended = new Promise((resolve) => {
+    audio.onended = resolve;
+    audio.onerror = resolve;
+  });
+  await audio.play();
+  await ended;
+};
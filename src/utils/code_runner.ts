@@ -0,0 +1,173 @@
+import { Question } from '../questions';
+import { relayHeaders, toHttpUrl } from './relay_client';
+
+/**
+ * Client for the relay server's sandboxed code runner
+ * (POST /run and POST /run-tests)
+ */
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  truncated: boolean;
+  memoryExceeded: boolean;
+  durationMs: number;
+}
+
+/**
+ * Editor languages the relay runner knows how to execute
+ */
+export const RUNNABLE_LANGUAGES = ['python', 'javascript', 'typescript'];
+
+/**
+ * The relay never sends args, expected or actual for hidden cases, they
+ * are null
+ */
+export interface TestCaseResult {
+  index: number;
+  name: string;
+  hidden: boolean;
+  args: any[] | null;
+  expected: any;
+  actual: any;
+  passed: boolean;
+  error: string | null;
+  durationMs: number | null;
+}
+
+/**
+ * stdout and stderr are from the visible cases only; hidden cases run
+ * separately and their output stays on the relay
+ */
+export interface TestRunResult {
+  results: TestCaseResult[];
+  passed: number;
+  total: number;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+async function post(serverUrl: string, pathname: string, body: any) {
+  const response = await fetch(`${toHttpUrl(serverUrl)}${pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...relayHeaders() },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      data.error || `Request failed with status ${response.status}`
+    );
+  }
+  return data;
+}
+
+export async function runCode(
+  serverUrl: string,
+  { language, code, stdin }: { language: string; code: string; stdin?: string }
+): Promise<RunResult> {
+  return post(serverUrl, '/run', { language, code, stdin });
+}
+
+/**
+ * Questions can only be graded in languages they define an entry point for
+ */
+export const canRunTests = (question: Question | null, language: string) =>
+  !!question?.testCases.length &&
+  !!question.entryPoint[language] &&
+  RUNNABLE_LANGUAGES.includes(language);
+
+export const RUN_TESTS_TOOL_NAME = 'run_tests';
+
+export const RUN_TESTS_TOOL = {
+  name: RUN_TESTS_TOOL_NAME,
+  description:
+    "Runs the candidate's current code against the question's visible and hidden test cases. Returns pass/fail and timing for each case, and expected and actual values for visible ones.",
+  parameters: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export async function runTests(
+  serverUrl: string,
+  {
+    language,
+    code,
+    question,
+  }: { language: string; code: string; question: Question }
+): Promise<TestRunResult> {
+  return post(serverUrl, '/run-tests', {
+    language,
+    code,
+    entryPoint: question.entryPoint[language],
+    questionId: question.id,
+    testCases: question.testCases,
+  });
+}
+
+/**
+ * Short status line, e.g. "exit 0 in 42ms" or "timed out after 5000ms"
+ */
+export const describeRunResult = (result: RunResult) => {
+  if (result.timedOut) {
+    return `timed out after ${result.durationMs}ms`;
+  }
+  if (result.memoryExceeded) {
+    return `memory limit exceeded (exit ${result.exitCode})`;
+  }
+  const status =
+    result.exitCode === null
+      ? `killed (${result.signal})`
+      : `exit ${result.exitCode}`;
+  return `${status} in ${result.durationMs}ms${
+    result.truncated ? ', output truncated' : ''
+  }`;
+};
+
+/**
+ * Plain-text form of a run result for the interviewer model
+ */
+export const formatRunResult = (result: RunResult) =>
+  [
+    `Run result: ${describeRunResult(result)}`,
+    `stdout:\n${result.stdout || '(empty)'}`,
+    `stderr:\n${result.stderr || '(empty)'}`,
+  ].join('\n');
+
+/**
+ * Plain-text form of a test run
+ * Hidden cases only report pass/fail
+ */
+export const formatTestRunResult = (result: TestRunResult) => {
+  const lines = [`Tests: ${result.passed}/${result.total} passed`];
+  for (const testCase of result.results) {
+    const status = testCase.passed ? 'PASS' : 'FAIL';
+    const timing =
+      testCase.durationMs === null ? '' : ` (${testCase.durationMs}ms)`;
+    if (testCase.hidden) {
+      lines.push(`${status} ${testCase.name} [hidden]${timing}`);
+      continue;
+    }
+    lines.push(
+      `${status} ${testCase.name}${timing}`,
+      `  input: ${JSON.stringify(testCase.args)}`,
+      `  expected: ${JSON.stringify(testCase.expected)}`,
+      testCase.error
+        ? `  error: ${testCase.error}`
+        : `  actual: ${JSON.stringify(testCase.actual)}`
+    );
+  }
+  if (result.timedOut) {
+    lines.push(`Run timed out after ${result.durationMs}ms`);
+  }
+  if (result.stderr) {
+    lines.push(`stderr:\n${result.stderr}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,117 @@
+import { buildCodeUpdate, unifiedDiff } from './code_sync';
+
+const lines = (...rows: string[]) => rows.join('\n');
+
+describe('unifiedDiff', () => {
+  it('is empty when nothing changed', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('shows a changed line with its context', () => {
+    const before = lines('1', '2', '3', '4', '5', '6', '7', '8');
+    const after = lines('1', '2', '3', '4', 'five', '6', '7', '8');
+    expect(unifiedDiff(before, after)).toBe(
+      lines(
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8'
+      )
+    );
+  });
+
+  it('numbers an insertion at the start', () => {
+    expect(unifiedDiff('b', lines('a', 'b'))).toBe(
+      lines('@@ -1,1 +1,2 @@', '+a', ' b')
+    );
+  });
+
+  it('splits changes far apart into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `${i}`);
+    const after = before.slice();
+    after[1] = 'one';
+    after[18] = 'eighteen';
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n'))!
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+});
+
+describe('buildCodeUpdate', () => {
+  const code = Array.from({ length: 30 }, (_, i) => `line ${i}`).join('\n');
+
+  it('sends the first update as a full snapshot', () => {
+    const update = buildCodeUpdate({
+      previous: null,
+      code,
+      language: 'python',
+      cursor: null,
+    });
+    expect(update.full).toBe(true);
+    expect(update.sent).toEqual({ version: 1, code, language: 'python' });
+    expect(update.text).toContain('[Code update #1, python, full snapshot]');
+  });
+
+  it('sends a small change as a diff against the last update', () => {
+    const update = buildCodeUpdate({
+      previous: { version: 3, code, language: 'python' },
+      code: code.replace('line 10', 'line ten'),
+      language: 'python',
+      cursor: null,
+    });
+    expect(update.full).toBe(false);
+    expect(update.text).toContain(
+      '[Code update #4, python, diff against update #3]'
+    );
+    expect(update.text).toContain('-line 10\n+line ten');
+  });
+
+  it('sends a full snapshot when the language changed', () => {
+    const update = buildCodeUpdate({
+      previous: { version: 1, code, language: 'python' },
+      code,
+      language: 'javascript',
+      cursor: null,
+    });
+    expect(update.full).toBe(true);
+  });
+
+  it('sends a full snapshot when the diff is not much smaller', () => {
+    const update = buildCodeUpdate({
+      previous: { version: 1, code: 'a', language: 'python' },
+      code: 'b',
+      language: 'python',
+      cursor: null,
+    });
+    expect(update.full).toBe(true);
+  });
+
+  it('adds the cursor and selection', () => {
+    const update = buildCodeUpdate({
+      previous: null,
+      code,
+      language: 'python',
+      cursor: {
+        line: 2,
+        column: 5,
+        selection: {
+          startLine: 2,
+          startColumn: 1,
+          endLine: 2,
+          endColumn: 7,
+          text: 'line 1',
+        },
+      },
+    });
+    expect(update.text).toContain('Cursor: line 2, column 5.');
+    expect(update.text).toContain(
+      'Selection: line 2, column 1 to line 2, column 7:\nline 1'
+    );
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Live code updates for the interviewer
+ * Changes are sent as labeled unified diffs against the last update, with
+ * a full snapshot whenever a diff would not be much smaller than the code
+ */
+export const AUTO_SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * Send a full snapshot instead when the diff is larger than this
+ * fraction of the code
+ */
+export const MAX_DIFF_RATIO = 0.5;
+
+/**
+ * Lines compared by the LCS table, past which a full snapshot is sent
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+const CONTEXT_LINES = 3;
+
+export interface CursorState {
+  line: number;
+  column: number;
+  selection: {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+    text: string;
+  } | null;
+}
+
+export interface SentCode {
+  version: number;
+  code: string;
+  language: string;
+}
+
+type DiffOp = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line diff through the longest common subsequence of the lines
+ * between the common prefix and suffix
+ * Returns null when the changed region is too large to compare
+ */
+const diffLines = (a: string[], b: string[]): DiffOp[] | null => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return null;
+  }
+  const n = midA.length;
+  const m = midB.length;
+  // table[i][j] is the LCS length of midA[i:] and midB[j:]
+  const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        midA[i] === midB[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const ops: DiffOp[] = a
+    .slice(0, start)
+    .map((line) => ({ op: ' ' as const, line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      ops.push({ op: ' ', line: midA[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || table[i + 1][j] >= table[i][j + 1])) {
+      ops.push({ op: '-', line: midA[i++] });
+    } else {
+      ops.push({ op: '+', line: midB[j++] });
+    }
+  }
+  ops.push(...a.slice(endA).map((line) => ({ op: ' ' as const, line })));
+  return ops;
+};
+
+/**
+ * Unified diff hunks between two versions of the code, without file
+ * headers; empty when nothing changed, null when too large to compute
+ */
+export const unifiedDiff = (before: string, after: string) => {
+  const ops = diffLines(before.split('\n'), after.split('\n'));
+  if (!ops) {
+    return null;
+  }
+  // Line numbers before each op
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const { op } of ops) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    oldLine += op === '+' ? 0 : 1;
+    newLine += op === '-' ? 0 : 1;
+  }
+  // Changed ops with their context, merged when they overlap
+  const ranges: [number, number][] = [];
+  ops.forEach(({ op }, index) => {
+    if (op === ' ') {
+      return;
+    }
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      ranges.push([from, to]);
+    }
+  });
+  const hunks = ranges.map(([from, to]) => {
+    const slice = ops.slice(from, to);
+    const oldCount = slice.filter(({ op }) => op !== '+').length;
+    const newCount = slice.filter(({ op }) => op !== '-').length;
+    const oldStart = oldLines[from] + (oldCount ? 1 : 0);
+    const newStart = newLines[from] + (newCount ? 1 : 0);
+    return [
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+      ...slice.map(({ op, line }) => `${op}${line}`),
+    ].join('\n');
+  });
+  return hunks.join('\n');
+};
+
+const describeCursor = (cursor: CursorState | null) => {
+  if (!cursor) {
+    return '';
+  }
+  const lines = [`Cursor: line ${cursor.line}, column ${cursor.column}.`];
+  const { selection } = cursor;
+  if (selection) {
+    lines.push(
+      `Selection: line ${selection.startLine}, column ${selection.startColumn} to line ${selection.endLine}, column ${selection.endColumn}:`,
+      selection.text
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Labeled code update for the interviewer: a diff against the previous
+ * update when possible, otherwise the full code
+ */
+export const buildCodeUpdate = ({
+  previous,
+  code,
+  language,
+  cursor,
+}: {
+  previous: SentCode | null;
+  code: string;
+  language: string;
+  cursor: CursorState | null;
+}) => {
+  const version = (previous?.version || 0) + 1;
+  const diff =
+    previous && previous.language === language
+      ? unifiedDiff(previous.code, code)
+      : null;
+  const full = diff === null || diff.length > code.length * MAX_DIFF_RATIO;
+  const body = full
+    ? [
+        `[Code update #${version}, ${language}, full snapshot]`,
+        '```' + language,
+        code,
+        '```',
+      ]
+    : [
+        `[Code update #${version}, ${language}, diff against update #${previous?.version}]`,
+        '```diff',
+        diff,
+        '```',
+      ];
+  const cursorText = describeCursor(cursor);
+  return {
+    sent: { version, code, language } as SentCode,
+    full,
+    text: (cursorText ? body.concat(cursorText) : body).join('\n'),
+  };
+};
@@ -0,0 +1,157 @@
+/**
+ * System-design whiteboard: labelled boxes joined by labelled arrows
+ * Diagrams are shared with the interviewer as text, the way code updates
+ * are, since the model can't see the canvas
+ */
+export interface DiagramNode {
+  id: string;
+  label: string;
+  /**
+   * Centre of the box, in whiteboard units
+   */
+  x: number;
+  y: number;
+}
+
+export interface DiagramEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface Diagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export const EMPTY_DIAGRAM: Diagram = { nodes: [], edges: [] };
+
+export const WHITEBOARD_WIDTH = 800;
+export const WHITEBOARD_HEIGHT = 500;
+export const NODE_WIDTH = 140;
+export const NODE_HEIGHT = 48;
+
+export const addNode = (diagram: Diagram, label: string): Diagram => {
+  // New boxes are placed on a grid, so they don't pile up on each other
+  const columns = Math.floor(WHITEBOARD_WIDTH / (NODE_WIDTH + 40));
+  const index = diagram.nodes.length;
+  return {
+    ...diagram,
+    nodes: diagram.nodes.concat({
+      id: crypto.randomUUID(),
+      label,
+      x: (NODE_WIDTH + 40) * (index % columns) + NODE_WIDTH / 2 + 20,
+      y:
+        ((NODE_HEIGHT + 60) * Math.floor(index / columns) +
+          NODE_HEIGHT / 2 +
+          20) %
+        WHITEBOARD_HEIGHT,
+    }),
+  };
+};
+
+/**
+ * Joins two boxes, unless they are already joined that way
+ */
+export const addEdge = (
+  diagram: Diagram,
+  from: string,
+  to: string,
+  label = ''
+): Diagram =>
+  from === to ||
+  diagram.edges.some((edge) => edge.from === from && edge.to === to)
+    ? diagram
+    : {
+        ...diagram,
+        edges: diagram.edges.concat({
+          id: crypto.randomUUID(),
+          from,
+          to,
+          label,
+        }),
+      };
+
+export const moveNode = (
+  diagram: Diagram,
+  id: string,
+  x: number,
+  y: number
+): Diagram => ({
+  ...diagram,
+  nodes: diagram.nodes.map((node) =>
+    node.id === id
+      ? {
+          ...node,
+          x: Math.min(WHITEBOARD_WIDTH, Math.max(0, x)),
+          y: Math.min(WHITEBOARD_HEIGHT, Math.max(0, y)),
+        }
+      : node
+  ),
+});
+
+/**
+ * Renames a box or an arrow
+ */
+export const relabel = (
+  diagram: Diagram,
+  id: string,
+  label: string
+): Diagram => ({
+  nodes: diagram.nodes.map((node) =>
+    node.id === id ? { ...node, label } : node
+  ),
+  edges: diagram.edges.map((edge) =>
+    edge.id === id ? { ...edge, label } : edge
+  ),
+});
+
+/**
+ * Removes a box with its arrows, or a single arrow
+ */
+export const removeElement = (diagram: Diagram, id: string): Diagram => ({
+  nodes: diagram.nodes.filter((node) => node.id !== id),
+  edges: diagram.edges.filter(
+    (edge) => edge.id !== id && edge.from !== id && edge.to !== id
+  ),
+});
+
+/**
+ * The diagram as text, e.g.
+ *   Components:
+ *   - Load balancer
+ *   Connections:
+ *   - Load balancer -> App server (HTTP)
+ * Components are listed left to right, top to bottom, as they are drawn
+ */
+export const describeDiagram = (diagram: Diagram) => {
+  if (!diagram.nodes.length) {
+    return 'The whiteboard is empty.';
+  }
+  const labels = Object.fromEntries(
+    diagram.nodes.map((node) => [node.id, node.label || '(unlabelled)'])
+  );
+  const nodes = [...diagram.nodes].sort((a, b) =>
+    Math.abs(a.y - b.y) < NODE_HEIGHT ? a.x - b.x : a.y - b.y
+  );
+  const lines = ['Components:', ...nodes.map((node) => `- ${labels[node.id]}`)];
+  if (diagram.edges.length) {
+    lines.push(
+      'Connections:',
+      ...diagram.edges.map(
+        (edge) =>
+          `- ${labels[edge.from]} -> ${labels[edge.to]}${
+            edge.label ? ` (${edge.label})` : ''
+          }`
+      )
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Labelled whiteboard update for the interviewer
+ */
+export const buildDiagramUpdate = (diagram: Diagram) =>
+  `[Whiteboard update]\n${describeDiagram(diagram)}`;
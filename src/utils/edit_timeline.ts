@@ -0,0 +1,277 @@
+/**
+ * Keystroke-level history of the code editor
+ * Every Monaco content change is kept with its time since the interview
+ * started, so the code can be rebuilt at any moment and the candidate's
+ * editing measured
+ */
+export interface TextChange {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+export type EditEvent =
+  | {
+      t: number;
+      kind: 'edit';
+      changes: TextChange[];
+      paste?: true;
+      undo?: true;
+      redo?: true;
+    }
+  | {
+      /**
+       * Code replaced from outside the editor, e.g. loading starter code
+       */
+      t: number;
+      kind: 'reset';
+      code: string;
+    };
+
+export interface EditTimeline {
+  startCode: string;
+  events: EditEvent[];
+}
+
+/**
+ * Pastes at least this long are flagged
+ */
+export const LARGE_PASTE_CHARS = 200;
+
+/**
+ * Deleting at least this many lines in one edit counts as a rewrite
+ */
+export const REWRITE_MIN_LINES = 3;
+
+/**
+ * Gaps between edits at least this long count as idle
+ */
+export const IDLE_THRESHOLD_MS = 60_000;
+
+/**
+ * How often code is kept while building a playback, in events
+ */
+const CHECKPOINT_EVENTS = 200;
+
+/**
+ * Monaco's IModelContentChange, as far as it is used here
+ */
+interface ModelContentChange {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+export interface EditRecorder {
+  startedAt: number;
+  code: string;
+  timeline: EditTimeline;
+}
+
+export const createEditRecorder = (
+  startCode: string,
+  startedAt = Date.now()
+): EditRecorder => ({
+  startedAt,
+  code: startCode,
+  timeline: { startCode, events: [] },
+});
+
+/**
+ * Changes in one event share the offsets of the code before it, so they
+ * are applied back to front
+ */
+export const applyChanges = (code: string, changes: TextChange[]) =>
+  [...changes]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce(
+      (result, { offset, length, text }) =>
+        result.slice(0, offset) + text + result.slice(offset + length),
+      code
+    );
+
+const applyEvent = (code: string, event: EditEvent) =>
+  event.kind === 'reset' ? event.code : applyChanges(code, event.changes);
+
+/**
+ * Records a content change, given the editor's value after it
+ * Changes that don't lead to that value came from outside the editor's
+ * history (the value prop was replaced) and are kept as a reset instead
+ */
+export const recordEdit = (
+  recorder: EditRecorder,
+  modelChanges: ModelContentChange[],
+  value: string,
+  { undo = false, redo = false } = {}
+) => {
+  const t = Date.now() - recorder.startedAt;
+  const changes = modelChanges.map(({ rangeOffset, rangeLength, text }) => ({
+    offset: rangeOffset,
+    length: rangeLength,
+    text,
+  }));
+  if (applyChanges(recorder.code, changes) === value) {
+    recorder.timeline.events.push({
+      t,
+      kind: 'edit',
+      changes,
+      ...(undo ? { undo: true as const } : {}),
+      ...(redo ? { redo: true as const } : {}),
+    });
+  } else if (value !== recorder.code) {
+    recorder.timeline.events.push({ t, kind: 'reset', code: value });
+  }
+  recorder.code = value;
+};
+
+/**
+ * Monaco reports pastes after the content change they caused
+ */
+export const markPaste = (recorder: EditRecorder) => {
+  const last = recorder.timeline.events[recorder.timeline.events.length - 1];
+  if (last?.kind === 'edit') {
+    last.paste = true;
+  }
+};
+
+/**
+ * Code at any moment of the timeline
+ * Code is kept every few hundred events, so scrubbing stays fast
+ */
+export const createCodePlayback = (timeline: EditTimeline) => {
+  const checkpoints = [{ index: 0, code: timeline.startCode }];
+  let code = timeline.startCode;
+  timeline.events.forEach((event, i) => {
+    code = applyEvent(code, event);
+    if ((i + 1) % CHECKPOINT_EVENTS === 0) {
+      checkpoints.push({ index: i + 1, code });
+    }
+  });
+  return (atMs: number) => {
+    let end = 0;
+    while (end < timeline.events.length && timeline.events[end].t <= atMs) {
+      end++;
+    }
+    const checkpoint = checkpoints[Math.floor(end / CHECKPOINT_EVENTS)];
+    let result = checkpoint.code;
+    for (let i = checkpoint.index; i < end; i++) {
+      result = applyEvent(result, timeline.events[i]);
+    }
+    return result;
+  };
+};
+
+export interface EditMetrics {
+  firstEditMs: number | null;
+  edits: number;
+  typedChars: number;
+  deletedChars: number;
+  undos: number;
+  pastes: { t: number; chars: number; lines: number }[];
+  largePastes: number;
+  rewrites: { t: number; lines: number }[];
+  idlePeriods: { startMs: number; durationMs: number }[];
+  idleMs: number;
+}
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+/**
+ * Editing signals for the evaluation and the report
+ * Idle periods are counted from the first edit to the end of the session
+ */
+export const measureEdits = (
+  timeline: EditTimeline,
+  durationMs: number
+): EditMetrics => {
+  const metrics: EditMetrics = {
+    firstEditMs: null,
+    edits: 0,
+    typedChars: 0,
+    deletedChars: 0,
+    undos: 0,
+    pastes: [],
+    largePastes: 0,
+    rewrites: [],
+    idlePeriods: [],
+    idleMs: 0,
+  };
+  let code = timeline.startCode;
+  let lastEditMs: number | null = null;
+  const addGap = (untilMs: number) => {
+    if (lastEditMs !== null && untilMs - lastEditMs >= IDLE_THRESHOLD_MS) {
+      metrics.idlePeriods.push({
+        startMs: lastEditMs,
+        durationMs: untilMs - lastEditMs,
+      });
+      metrics.idleMs += untilMs - lastEditMs;
+    }
+  };
+  for (const event of timeline.events) {
+    if (event.kind === 'reset') {
+      code = event.code;
+      continue;
+    }
+    addGap(event.t);
+    lastEditMs = event.t;
+    metrics.firstEditMs ??= event.t;
+    metrics.edits++;
+    if (event.undo || event.redo) {
+      metrics.undos++;
+    }
+    let deletedLines = 0;
+    for (const { offset, length, text } of event.changes) {
+      metrics.deletedChars += length;
+      deletedLines += countLines(code.slice(offset, offset + length));
+      if (event.paste) {
+        metrics.pastes.push({
+          t: event.t,
+          chars: text.length,
+          lines: countLines(text) + 1,
+        });
+        if (text.length >= LARGE_PASTE_CHARS) {
+          metrics.largePastes++;
+        }
+      } else if (!event.undo && !event.redo) {
+        metrics.typedChars += text.length;
+      }
+    }
+    if (deletedLines >= REWRITE_MIN_LINES && !event.undo) {
+      metrics.rewrites.push({ t: event.t, lines: deletedLines });
+    }
+    code = applyChanges(code, event.changes);
+  }
+  addGap(durationMs);
+  return metrics;
+};
+
+const formatMinutes = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+/**
+ * One line per signal, as shared with the interviewer and in reports
+ */
+export const describeEditMetrics = (metrics: EditMetrics) => {
+  if (metrics.firstEditMs === null) {
+    return ['No code was written'];
+  }
+  const largest = Math.max(0, ...metrics.pastes.map((p) => p.chars));
+  return [
+    `Time to first code: ${formatMinutes(metrics.firstEditMs)}`,
+    `Edits: ${metrics.edits} (${metrics.typedChars} characters typed, ` +
+      `${metrics.deletedChars} deleted, ${metrics.undos} undo/redo)`,
+    metrics.pastes.length
+      ? `Pastes: ${metrics.pastes.length}, largest ${largest} characters, ` +
+        `${metrics.largePastes} of ${LARGE_PASTE_CHARS}+ characters`
+      : 'Pastes: none',
+    `Rewrites (${REWRITE_MIN_LINES}+ lines deleted at once): ` +
+      `${metrics.rewrites.length}`,
+    `Idle periods of ${IDLE_THRESHOLD_MS / 60_000}+ minute(s) after ` +
+      `starting to code: ${metrics.idlePeriods.length}, ` +
+      `${formatMinutes(metrics.idleMs)} in total`,
+  ];
+};
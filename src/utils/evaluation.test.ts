@@ -0,0 +1,44 @@
+import { DEFAULT_RUBRIC } from '../rubrics';
+import { EVALUATION_TOOL_NAME, validateEvaluation } from './evaluation';
+import interview from '../../relay-server/fixtures/scenarios/interview.json';
+import evaluationRetry from '../../relay-server/fixtures/scenarios/evaluation_retry.json';
+
+/**
+ * submit_evaluation arguments scripted in a mock server scenario
+ */
+const scriptedEvaluations = (scenario: { steps: any[] }) =>
+  scenario.steps
+    .flatMap((step) => step.toolCalls || [])
+    .filter((call) => call.name === EVALUATION_TOOL_NAME)
+    .map((call) => call.arguments);
+
+describe('validateEvaluation', () => {
+  it('accepts the evaluation of the interview scenario', () => {
+    const [args] = scriptedEvaluations(interview);
+    const { evaluation, errors } = validateEvaluation(args, DEFAULT_RUBRIC);
+    expect(errors).toEqual([]);
+    expect(evaluation?.dimensions.problemSolving.score).toBe(4);
+    expect(evaluation?.summary).toMatch(/^A solid performance/);
+  });
+
+  it('lists every problem of an invalid evaluation, then accepts the retry', () => {
+    const [invalid, corrected] = scriptedEvaluations(evaluationRetry);
+    expect(validateEvaluation(invalid, DEFAULT_RUBRIC)).toEqual({
+      evaluation: null,
+      errors: [
+        '"problemSolving.score" must be an integer from 0 to 5',
+        '"communication.justification" must be a non-empty string',
+        '"codeQuality" is missing',
+        '"timeManagement" is missing',
+        '"summary" must be a non-empty string',
+      ],
+    });
+    expect(validateEvaluation(corrected, DEFAULT_RUBRIC).errors).toEqual([]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateEvaluation('4/5', DEFAULT_RUBRIC).errors).toEqual([
+      'Arguments must be an object',
+    ]);
+  });
+});
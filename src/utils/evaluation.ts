@@ -0,0 +1,195 @@
+import { Rubric, normalizedWeights } from '../rubrics';
+
+/**
+ * Structured interview evaluation, submitted by the interviewer model
+ * through the submit_evaluation tool and validated against the session's
+ * rubric before it is shown
+ */
+export interface DimensionEvaluation {
+  score: number;
+  justification: string;
+  evidence: string[];
+}
+
+export interface Evaluation {
+  dimensions: { [key: string]: DimensionEvaluation };
+  summary: string;
+}
+
+export const EVALUATION_TOOL_NAME = 'submit_evaluation';
+
+/**
+ * How many invalid submissions are answered with validation errors
+ * before the request is given up
+ */
+export const MAX_EVALUATION_ATTEMPTS = 3;
+
+const dimensionSchema = (
+  description: string,
+  { min, max }: Rubric['scale']
+) => ({
+  type: 'object',
+  description,
+  properties: {
+    score: {
+      type: 'integer',
+      minimum: min,
+      maximum: max,
+      description: `Score from ${min} to ${max}`,
+    },
+    justification: {
+      type: 'string',
+      description: 'One to three sentences explaining the score',
+    },
+    evidence: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Short verbatim quotes from the conversation or code that support the score',
+    },
+  },
+  required: ['score', 'justification', 'evidence'],
+  additionalProperties: false,
+});
+
+/**
+ * submit_evaluation tool definition, with one property per rubric dimension
+ */
+export const buildEvaluationTool = (rubric: Rubric) => ({
+  name: EVALUATION_TOOL_NAME,
+  description:
+    "Submits the structured evaluation of the candidate's performance so far. Only call this when asked for an evaluation.",
+  parameters: {
+    type: 'object',
+    properties: {
+      ...Object.fromEntries(
+        rubric.dimensions.map(({ key, label, description, levels }) => [
+          key,
+          dimensionSchema(
+            [
+              `${label}: ${description}`,
+              ...Object.entries(levels).map(
+                ([score, descriptor]) => `${score} = ${descriptor}`
+              ),
+            ].join('. '),
+            rubric.scale
+          ),
+        ])
+      ),
+      summary: {
+        type: 'string',
+        description: 'Overall assessment in two to four sentences',
+      },
+    },
+    required: rubric.dimensions.map(({ key }) => key).concat('summary'),
+    additionalProperties: false,
+  },
+});
+
+export const EVALUATION_REQUEST = `Evaluate the candidate's performance so far by calling the ${EVALUATION_TOOL_NAME} tool. Score each dimension against the rubric's level descriptors, justify every score, and quote the conversation or code as evidence. Do not read the evaluation out loud.`;
+
+/**
+ * The evaluation request with signals measured during the interview,
+ * which the model should cite over its own impressions
+ */
+export const buildEvaluationRequest = (signals: string[]) =>
+  signals.length
+    ? `${EVALUATION_REQUEST}\n\nMeasured during the interview; use these as evidence for time management, code quality and communication where the rubric covers them:\n${signals
+        .map((signal) => `- ${signal}`)
+        .join('\n')}`
+    : EVALUATION_REQUEST;
+
+/**
+ * Checks submit_evaluation arguments against the rubric
+ * Returns every problem found, so the model can fix them in one retry
+ */
+export const validateEvaluation = (
+  args: any,
+  rubric: Rubric
+): { evaluation: Evaluation | null; errors: string[] } => {
+  const errors: string[] = [];
+  if (!args || typeof args !== 'object') {
+    return { evaluation: null, errors: ['Arguments must be an object'] };
+  }
+  const { min, max } = rubric.scale;
+  const dimensions: Evaluation['dimensions'] = {};
+  for (const { key } of rubric.dimensions) {
+    const value = args[key];
+    if (!value || typeof value !== 'object') {
+      errors.push(`"${key}" is missing`);
+      continue;
+    }
+    const { score, justification, evidence } = value;
+    if (
+      typeof score !== 'number' ||
+      !Number.isInteger(score) ||
+      score < min ||
+      score > max
+    ) {
+      errors.push(`"${key}.score" must be an integer from ${min} to ${max}`);
+    }
+    if (typeof justification !== 'string' || !justification.trim()) {
+      errors.push(`"${key}.justification" must be a non-empty string`);
+    }
+    if (
+      !Array.isArray(evidence) ||
+      !evidence.every((quote) => typeof quote === 'string')
+    ) {
+      errors.push(`"${key}.evidence" must be an array of strings`);
+    }
+    dimensions[key] = { score, justification, evidence };
+  }
+  if (typeof args.summary !== 'string' || !args.summary.trim()) {
+    errors.push(`"summary" must be a non-empty string`);
+  }
+  return errors.length
+    ? { evaluation: null, errors }
+    : { evaluation: { dimensions, summary: args.summary }, errors };
+};
+
+/**
+ * Just the scores, e.g. { problemSolving: 3, ... }
+ */
+export const evaluationScores = (evaluation: Evaluation | null) =>
+  Object.fromEntries(
+    Object.entries(evaluation?.dimensions || {}).map(([key, value]) => [
+      key,
+      value.score,
+    ])
+  );
+
+/**
+ * Weighted average of the scored dimensions, on the rubric's scale
+ * Dimensions without a score are left out and the weights renormalized
+ */
+export const overallScore = (
+  scores: { [key: string]: number | null | undefined },
+  rubric: Rubric
+) => {
+  const weights = normalizedWeights(rubric);
+  let total = 0;
+  let weight = 0;
+  for (const { key } of rubric.dimensions) {
+    const score = scores[key];
+    if (typeof score === 'number') {
+      total += score * weights[key];
+      weight += weights[key];
+    }
+  }
+  return weight ? Math.round((total / weight) * 10) / 10 : null;
+};
+
+/**
+ * What a score means on a dimension, from the closest level descriptor
+ * at or below it
+ */
+export const levelDescriptor = (
+  levels: { [score: string]: string },
+  score: number
+) => {
+  const below = Object.keys(levels)
+    .map(Number)
+    .filter((level) => level <= score)
+    .sort((a, b) => b - a);
+  return below.length ? levels[below[0]] : '';
+};
@@ -0,0 +1,160 @@
+import {
+  RealtimeEvent,
+  appendEvents,
+  collapseEvents,
+  describeLatency,
+  eventMatcher,
+  measureResponseLatency,
+} from './event_log';
+
+const at = (ms: number) => new Date(Date.UTC(2024, 0, 1) + ms).toISOString();
+
+const event = (
+  ms: number,
+  source: RealtimeEvent['source'],
+  type: string,
+  fields: { [key: string]: any } = {}
+): RealtimeEvent => ({ time: at(ms), source, event: { type, ...fields } });
+
+describe('appendEvents', () => {
+  it('keeps a run of audio events as one entry', () => {
+    const log = appendEvents(
+      [],
+      [
+        event(0, 'client', 'input_audio_buffer.append'),
+        event(10, 'client', 'input_audio_buffer.append'),
+        event(20, 'client', 'input_audio_buffer.append'),
+        event(30, 'server', 'input_audio_buffer.speech_started'),
+      ]
+    );
+    expect(log.map(({ event, count }) => [event.type, count])).toEqual([
+      ['input_audio_buffer.append', 3],
+      ['input_audio_buffer.speech_started', undefined],
+    ]);
+    expect(log[0].time).toBe(at(0));
+  });
+
+  it('continues the last entry across batches', () => {
+    const first = appendEvents(
+      [],
+      [event(0, 'server', 'response.audio.delta')]
+    );
+    const second = appendEvents(first, [
+      event(10, 'server', 'response.audio.delta'),
+    ]);
+    expect(second).toHaveLength(1);
+    expect(second[0].count).toBe(2);
+    expect(first[0].count).toBeUndefined();
+  });
+
+  it('keeps other events apart', () => {
+    const log = appendEvents(
+      [],
+      [
+        event(0, 'server', 'response.audio_transcript.delta'),
+        event(10, 'server', 'response.audio_transcript.delta'),
+      ]
+    );
+    expect(log).toHaveLength(2);
+  });
+});
+
+describe('collapseEvents', () => {
+  it('adds up the counts of every run', () => {
+    const log = collapseEvents([
+      { ...event(0, 'server', 'response.text.delta'), count: 2 },
+      event(10, 'server', 'response.text.delta'),
+      event(20, 'server', 'response.done'),
+    ]);
+    expect(log.map(({ count }) => count)).toEqual([3, undefined]);
+  });
+});
+
+describe('eventMatcher', () => {
+  it('filters by source, type and payload text', () => {
+    const log = [
+      event(0, 'client', 'session.update', { voice: 'Alloy' }),
+      event(10, 'server', 'session.updated', { voice: 'alloy' }),
+      event(20, 'server', 'response.done'),
+    ];
+    const matches = (filters: Parameters<typeof eventMatcher>[0]) =>
+      log.filter(eventMatcher(filters)).map(({ event }) => event.type);
+    expect(matches({ source: 'server', type: '', search: '' })).toEqual([
+      'session.updated',
+      'response.done',
+    ]);
+    expect(
+      matches({ source: 'all', type: 'session.update', search: '' })
+    ).toEqual(['session.update']);
+    expect(matches({ source: 'all', type: '', search: ' ALLOY ' })).toEqual([
+      'session.update',
+      'session.updated',
+    ]);
+  });
+});
+
+describe('measureResponseLatency', () => {
+  it('measures from a response request to the first audio', () => {
+    expect(
+      measureResponseLatency([
+        event(0, 'client', 'response.create'),
+        event(800, 'server', 'response.audio.delta', { response_id: 'r1' }),
+        event(900, 'server', 'response.audio.delta', { response_id: 'r1' }),
+      ])
+    ).toEqual([
+      {
+        time: at(0),
+        trigger: 'response.create',
+        responseId: 'r1',
+        latencyMs: 800,
+      },
+    ]);
+  });
+
+  it('measures from the end of speech with turn detection', () => {
+    const [latency] = measureResponseLatency([
+      event(0, 'server', 'input_audio_buffer.speech_stopped'),
+      event(450, 'server', 'response.audio.delta', { response_id: 'r2' }),
+    ]);
+    expect(latency.trigger).toBe('speech_stopped');
+    expect(latency.latencyMs).toBe(450);
+  });
+
+  it('lists requests without audio, but not pauses spoken over', () => {
+    expect(
+      measureResponseLatency([
+        event(0, 'server', 'input_audio_buffer.speech_stopped'),
+        event(100, 'server', 'input_audio_buffer.speech_stopped'),
+        event(200, 'client', 'response.create'),
+      ]).map(({ trigger, latencyMs }) => [trigger, latencyMs])
+    ).toEqual([['response.create', null]]);
+  });
+});
+
+describe('describeLatency', () => {
+  it('summarizes the measured responses', () => {
+    expect(
+      describeLatency([
+        {
+          time: at(0),
+          trigger: 'response.create',
+          responseId: 'a',
+          latencyMs: 600,
+        },
+        {
+          time: at(0),
+          trigger: 'speech_stopped',
+          responseId: 'b',
+          latencyMs: 1000,
+        },
+        {
+          time: at(0),
+          trigger: 'response.create',
+          responseId: '',
+          latencyMs: null,
+        },
+      ])
+    ).toBe('avg 800ms, max 1000ms over 2 responses');
+    expect(describeLatency([])).toBe('No responses with audio yet');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Realtime API event log: every event sent and received, for the event
+ * inspector and bug reports
+ */
+export interface RealtimeEvent {
+  time: string;
+  source: 'client' | 'server';
+  /**
+   * How many events in a row this entry stands for, see collapseEvents()
+   */
+  count?: number;
+  event: { [key: string]: any };
+}
+
+/**
+ * Runs of consecutive events of the same type and source, e.g. audio
+ * deltas, as one entry with a count
+ * Saved sessions keep the log collapsed, as it was before the inspector
+ */
+export const collapseEvents = (events: RealtimeEvent[]) => {
+  const collapsed: RealtimeEvent[] = [];
+  for (const realtimeEvent of events) {
+    const last = collapsed[collapsed.length - 1];
+    if (
+      last &&
+      last.source === realtimeEvent.source &&
+      last.event.type === realtimeEvent.event.type
+    ) {
+      collapsed[collapsed.length - 1] = {
+        ...last,
+        count: (last.count || 1) + (realtimeEvent.count || 1),
+      };
+    } else {
+      collapsed.push(realtimeEvent);
+    }
+  }
+  return collapsed;
+};
+
+/**
+ * Streamed audio arrives dozens of events a second
+ */
+const AUDIO_EVENT_TYPES = ['input_audio_buffer.append', 'response.audio.delta'];
+
+/**
+ * The log with new events added, each run of audio events kept as one
+ * entry as it arrives, so the log stays small over a long interview
+ * The entry keeps the first event's time, which response latency is
+ * measured to
+ */
+export const appendEvents = (
+  events: RealtimeEvent[],
+  incoming: RealtimeEvent[]
+) => {
+  const appended = events.slice();
+  for (const realtimeEvent of incoming) {
+    const last = appended[appended.length - 1];
+    if (
+      last &&
+      AUDIO_EVENT_TYPES.includes(realtimeEvent.event.type) &&
+      last.source === realtimeEvent.source &&
+      last.event.type === realtimeEvent.event.type
+    ) {
+      appended[appended.length - 1] = {
+        ...last,
+        count: (last.count || 1) + (realtimeEvent.count || 1),
+      };
+    } else {
+      appended.push(realtimeEvent);
+    }
+  }
+  return appended;
+};
+
+export type EventSourceFilter = 'all' | RealtimeEvent['source'];
+
+export interface EventFilters {
+  source: EventSourceFilter;
+  /**
+   * Exact event type, empty for all
+   */
+  type: string;
+  /**
+   * Case-insensitive text to find anywhere in the payload
+   */
+  search: string;
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  source: 'all',
+  type: '',
+  search: '',
+};
+
+/**
+ * Payloads as searchable text, computed once per event
+ */
+const searchText = new WeakMap<object, string>();
+
+const payloadText = (event: RealtimeEvent['event']) => {
+  let text = searchText.get(event);
+  if (text === undefined) {
+    text = JSON.stringify(event).toLowerCase();
+    searchText.set(event, text);
+  }
+  return text;
+};
+
+/**
+ * Test for the events that pass the filters
+ */
+export const eventMatcher = ({ source, type, search }: EventFilters) => {
+  const query = search.trim().toLowerCase();
+  return (realtimeEvent: RealtimeEvent) =>
+    (source === 'all' || realtimeEvent.source === source) &&
+    (!type || realtimeEvent.event.type === type) &&
+    (!query || payloadText(realtimeEvent.event).includes(query));
+};
+
+/**
+ * Every event type in the log, sorted
+ */
+export const eventTypes = (events: RealtimeEvent[]) =>
+  Array.from(new Set(events.map(({ event }) => event.type as string))).sort();
+
+/**
+ * Time until the interviewer started speaking
+ * - response.create: the client asked for a response
+ * - speech_stopped: the server heard the candidate stop speaking and
+ *   replies on its own, with turn detection on
+ */
+export interface ResponseLatency {
+  time: string;
+  trigger: 'response.create' | 'speech_stopped';
+  responseId: string;
+  /**
+   * Null when no audio followed, e.g. in text interviews
+   */
+  latencyMs: number | null;
+}
+
+export const measureResponseLatency = (events: RealtimeEvent[]) => {
+  const latencies: ResponseLatency[] = [];
+  let pending: ResponseLatency | null = null;
+  for (const { time, source, event } of events) {
+    const trigger =
+      source === 'client' && event.type === 'response.create'
+        ? 'response.create'
+        : source === 'server' &&
+          event.type === 'input_audio_buffer.speech_stopped'
+        ? 'speech_stopped'
+        : null;
+    if (trigger) {
+      // A request that got no audio is still listed; a pause the
+      // candidate spoke on after is not
+      if (pending?.trigger === 'response.create') {
+        latencies.push(pending);
+      }
+      pending = { time, trigger, responseId: '', latencyMs: null };
+    } else if (
+      pending &&
+      source === 'server' &&
+      event.type === 'response.audio.delta'
+    ) {
+      latencies.push({
+        ...pending,
+        responseId: event.response_id || '',
+        latencyMs: new Date(time).valueOf() - new Date(pending.time).valueOf(),
+      });
+      pending = null;
+    }
+  }
+  if (pending?.trigger === 'response.create') {
+    latencies.push(pending);
+  }
+  return latencies;
+};
+
+/**
+ * e.g. "avg 820ms, max 1450ms over 12 responses"
+ */
+export const describeLatency = (latencies: ResponseLatency[]) => {
+  const measured = latencies
+    .map(({ latencyMs }) => latencyMs)
+    .filter((ms): ms is number => ms !== null);
+  if (!measured.length) {
+    return 'No responses with audio yet';
+  }
+  const average = Math.round(
+    measured.reduce((sum, ms) => sum + ms, 0) / measured.length
+  );
+  return (
+    `avg ${average}ms, max ${Math.max(...measured)}ms over ` +
+    `${measured.length} response${measured.length === 1 ? '' : 's'}`
+  );
+};
+
+/**
+ * The log as JSON Lines, one event per line
+ */
+export const buildEventLogJsonl = (events: RealtimeEvent[]) =>
+  events.map((realtimeEvent) => JSON.stringify(realtimeEvent) + '\n').join('');
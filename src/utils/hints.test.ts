@@ -0,0 +1,67 @@
+import { validateRubric } from '../rubrics';
+import {
+  HintUsage,
+  applyHintPenalty,
+  describeHintUsage,
+  hintDeductions,
+} from './hints';
+
+const rubric = validateRubric({
+  schemaVersion: 2,
+  id: 'test',
+  name: 'Test',
+  scale: { min: 1, max: 5 },
+  dimensions: [
+    { key: 'problemSolving', label: 'Problem Solving' },
+    { key: 'communication', label: 'Communication' },
+  ],
+  hintPenalty: { pointsPerLevel: 0.5, dimensions: ['problemSolving'] },
+});
+
+const hint = (level: number, requested = false): HintUsage => ({
+  time: new Date(0).toISOString(),
+  level,
+  hint: `Hint ${level}`,
+  requested,
+});
+
+describe('applyHintPenalty', () => {
+  it('leaves scores alone without hints', () => {
+    expect(
+      applyHintPenalty({ problemSolving: 4, communication: 4 }, rubric, [])
+    ).toEqual({ problemSolving: 4, communication: 4 });
+  });
+
+  it('takes points off by the deepest level given', () => {
+    expect(
+      applyHintPenalty({ problemSolving: 4, communication: 4 }, rubric, [
+        hint(1),
+        hint(3),
+        hint(2),
+      ])
+    ).toEqual({ problemSolving: 2.5, communication: 4 });
+  });
+
+  it('never goes below the bottom of the scale', () => {
+    expect(applyHintPenalty({ problemSolving: 2 }, rubric, [hint(5)])).toEqual({
+      problemSolving: 1,
+    });
+  });
+
+  it('does nothing for rubrics without a penalty', () => {
+    const lenient = { ...rubric, hintPenalty: null };
+    expect(hintDeductions(lenient, [hint(3)])).toEqual({});
+    expect(applyHintPenalty({ problemSolving: 4 }, lenient, [hint(3)])).toEqual(
+      { problemSolving: 4 }
+    );
+  });
+});
+
+describe('describeHintUsage', () => {
+  it('counts hints and the ones requested', () => {
+    expect(describeHintUsage([])).toBe('No hints');
+    expect(describeHintUsage([hint(1), hint(2, true)], 3)).toBe(
+      '2 hints, up to level 2 of 3, 1 requested by the candidate'
+    );
+  });
+});
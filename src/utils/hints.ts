@@ -0,0 +1,132 @@
+import { Question } from '../questions';
+import { Rubric } from '../rubrics';
+
+/**
+ * Hint ladder
+ * A question's hints are its levels, from 1 (most general) to the most
+ * specific; the interviewer gives every hint through the give_hint tool so
+ * it is logged, and the rubric's hint penalty is taken off the scores
+ */
+export const HINT_TOOL_NAME = 'give_hint';
+
+export interface HintUsage {
+  time: string;
+  level: number;
+  hint: string;
+  /**
+   * Asked for with the Request Hint button, rather than offered
+   */
+  requested: boolean;
+}
+
+/**
+ * Sent as the candidate when they press Request Hint
+ */
+export const HINT_REQUEST = "I'm stuck. Could I have a hint, please?";
+
+export const buildHintTool = (question: Question | null) => ({
+  name: HINT_TOOL_NAME,
+  description: question?.hints.length
+    ? `Looks up a hint to give the candidate. Always call this before giving a hint, then put the returned hint in your own words. Levels go from 1 (most general) to ${question.hints.length} (most specific); go one level past the last hint given unless the candidate is still completely stuck.`
+    : 'Records a hint before you give it to the candidate. Always call this before giving a hint. Levels go from 1 (a gentle nudge) upwards as hints get more specific.',
+  parameters: {
+    type: 'object',
+    properties: {
+      level: {
+        type: 'integer',
+        minimum: 1,
+        ...(question?.hints.length ? { maximum: question.hints.length } : {}),
+        description: 'Hint level, from 1 (most general)',
+      },
+      hint: {
+        type: 'string',
+        description: question?.hints.length
+          ? 'Leave empty; the hint for the level is returned'
+          : 'The hint you are about to give',
+      },
+    },
+    required: ['level'],
+  },
+});
+
+/**
+ * The hint for a give_hint call: the question's own at that level, or the
+ * interviewer's for questions without written hints
+ */
+export const resolveHint = (
+  question: Question | null,
+  level: any,
+  hint: any
+): { level: number; hint: string } | { error: string } => {
+  const hints = question?.hints || [];
+  if (!Number.isInteger(level) || level < 1) {
+    return { error: 'level must be a positive integer' };
+  }
+  if (hints.length) {
+    if (level > hints.length) {
+      return {
+        error: `This question has ${hints.length} hint levels; every hint has been given.`,
+      };
+    }
+    return { level, hint: hints[level - 1] };
+  }
+  if (typeof hint !== 'string' || !hint.trim()) {
+    return { error: 'This question has no written hints; pass your own hint' };
+  }
+  return { level, hint: hint.trim() };
+};
+
+export const deepestHintLevel = (hints: HintUsage[]) =>
+  Math.max(0, ...hints.map(({ level }) => level));
+
+/**
+ * Points taken off each dimension's score for the hints given
+ */
+export const hintDeductions = (
+  rubric: Rubric,
+  hints: HintUsage[]
+): { [key: string]: number } => {
+  const penalty = rubric.hintPenalty;
+  const level = deepestHintLevel(hints);
+  if (!penalty || !level || !penalty.pointsPerLevel) {
+    return {};
+  }
+  return Object.fromEntries(
+    penalty.dimensions.map((key) => [key, penalty.pointsPerLevel * level])
+  );
+};
+
+/**
+ * Scores after the hint penalty, never below the bottom of the scale
+ */
+export const applyHintPenalty = (
+  scores: { [key: string]: number },
+  rubric: Rubric,
+  hints: HintUsage[]
+) => {
+  const deductions = hintDeductions(rubric, hints);
+  return Object.fromEntries(
+    Object.entries(scores).map(([key, score]) => [
+      key,
+      Math.max(rubric.scale.min, score - (deductions[key] || 0)),
+    ])
+  );
+};
+
+/**
+ * Hint usage in a line, e.g. "2 hints, up to level 2 of 3"
+ * levels is the length of the question's ladder, when known
+ */
+export const describeHintUsage = (hints: HintUsage[], levels = 0) => {
+  if (!hints.length) {
+    return 'No hints';
+  }
+  const requested = hints.filter((hint) => hint.requested).length;
+  return [
+    `${hints.length} hint${hints.length === 1 ? '' : 's'}, up to level ` +
+      `${deepestHintLevel(hints)}${levels ? ` of ${levels}` : ''}`,
+    requested ? `${requested} requested by the candidate` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+};
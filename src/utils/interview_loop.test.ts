@@ -0,0 +1,68 @@
+import { LoopRoundResult, buildDebrief } from './interview_loop';
+
+const round = (
+  interviewerName: string,
+  overall: number | null,
+  scale = { min: 0, max: 5 }
+): LoopRoundResult => ({
+  sessionId: interviewerName,
+  interviewType: 'coding',
+  interviewerName,
+  questionTitle: '',
+  rubricName: 'Test',
+  overall,
+  scale,
+  summary: '',
+});
+
+describe('buildDebrief', () => {
+  it('recommends by the average share of each scale', () => {
+    const debrief = buildDebrief([
+      round('Sarah', 4.5),
+      round('Daniel', 8, { min: 0, max: 10 }),
+    ]);
+    expect(debrief.rounds.map(({ normalized }) => normalized)).toEqual([
+      0.9, 0.8,
+    ]);
+    expect(debrief.average).toBeCloseTo(0.85);
+    expect(debrief.recommendation).toBe('Strong Hire');
+    expect(debrief.reasons).toEqual([
+      'Average score 85% across 2 evaluated rounds.',
+    ]);
+  });
+
+  it('caps the recommendation when a round scores very low', () => {
+    const debrief = buildDebrief([
+      round('Sarah', 5),
+      round('Daniel', 5),
+      round('Priya', 1),
+    ]);
+    expect(debrief.average).toBeCloseTo(0.733, 3);
+    expect(debrief.recommendation).toBe('No Hire');
+    expect(debrief.reasons[1]).toBe(
+      'Capped at No Hire: scored below 30% with Priya.'
+    );
+  });
+
+  it('does not raise a recommendation already below the cap', () => {
+    expect(
+      buildDebrief([round('Sarah', 1), round('Daniel', 0.5)]).recommendation
+    ).toBe('Strong No Hire');
+  });
+
+  it('leaves out rounds without an evaluation', () => {
+    const debrief = buildDebrief([round('Sarah', 3), round('Daniel', null)]);
+    expect(debrief.average).toBeCloseTo(0.6);
+    expect(debrief.recommendation).toBe('Hire');
+    expect(debrief.reasons).toContain(
+      'Left out 1 round(s) without an evaluation.'
+    );
+  });
+
+  it('is incomplete without any evaluation', () => {
+    expect(buildDebrief([round('Sarah', null)])).toMatchObject({
+      average: null,
+      recommendation: 'Incomplete',
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { DEFAULT_PERSONA } from '../personas';
+import { Rubric } from '../rubrics';
+import { evaluationScores, overallScore } from './evaluation';
+import { applyHintPenalty } from './hints';
+import { DEFAULT_INTERVIEW_TYPE, InterviewType } from './interview_types';
+import {
+  InterviewSession,
+  SessionConfig,
+  sessionRubric,
+} from './session_store';
+
+/**
+ * Interview loops: a sequence of rounds, each with its own interviewer,
+ * run one after another and closed with a combined debrief
+ * What interviewers save with set_memory is carried into later rounds
+ */
+export interface LoopRound {
+  id: string;
+  interviewType: InterviewType;
+  personaId: string;
+  /**
+   * Empty for the interviewer's choice
+   */
+  questionId: string;
+  durationMinutes: number;
+  /**
+   * Empty for the interview type's default rubric
+   */
+  rubricId: string;
+}
+
+export interface InterviewLoop {
+  name: string;
+  rounds: LoopRound[];
+}
+
+/**
+ * Outcome of a finished round, kept for the debrief
+ */
+export interface LoopRoundResult {
+  sessionId: string;
+  interviewType: InterviewType;
+  interviewerName: string;
+  questionTitle: string;
+  rubricName: string;
+  /**
+   * Overall score after the hint penalty, null without an evaluation
+   */
+  overall: number | null;
+  scale: Rubric['scale'];
+  summary: string;
+}
+
+/**
+ * A loop in progress; round is the index of the next round to run
+ */
+export interface LoopRun {
+  id: string;
+  loop: InterviewLoop;
+  round: number;
+  results: LoopRoundResult[];
+  memory: { [key: string]: any };
+}
+
+export const createRound = (overrides: Partial<LoopRound> = {}): LoopRound => ({
+  id: crypto.randomUUID(),
+  interviewType: DEFAULT_INTERVIEW_TYPE,
+  personaId: DEFAULT_PERSONA.id,
+  questionId: '',
+  durationMinutes: 45,
+  rubricId: '',
+  ...overrides,
+});
+
+/**
+ * A typical onsite: coding, system design and behavioral, each with a
+ * different interviewer
+ */
+export const createDefaultLoop = (): InterviewLoop => ({
+  name: 'Onsite Loop',
+  rounds: [
+    createRound({ interviewType: 'coding', personaId: 'friendly' }),
+    createRound({ interviewType: 'system_design', personaId: 'strict' }),
+    createRound({
+      interviewType: 'behavioral',
+      personaId: 'curious',
+      durationMinutes: 30,
+    }),
+  ],
+});
+
+export const startLoopRun = (loop: InterviewLoop): LoopRun => ({
+  id: crypto.randomUUID(),
+  loop,
+  round: 0,
+  results: [],
+  memory: {},
+});
+
+export const isLoopComplete = (run: LoopRun) =>
+  run.round >= run.loop.rounds.length;
+
+export const roundResult = (
+  session: InterviewSession,
+  round: LoopRound
+): LoopRoundResult => {
+  const rubric = sessionRubric(session);
+  const scores = applyHintPenalty(
+    evaluationScores(session.evaluation || null),
+    rubric,
+    session.hints || []
+  );
+  return {
+    sessionId: session.id,
+    interviewType: round.interviewType,
+    interviewerName: session.config.interviewerName || DEFAULT_PERSONA.name,
+    questionTitle: session.config.questionTitle,
+    rubricName: rubric.name,
+    overall: overallScore(scores, rubric),
+    scale: rubric.scale,
+    summary: session.evaluation?.summary || '',
+  };
+};
+
+/**
+ * Records a finished round and moves on to the next one
+ * Memory saved in the round is added to what earlier rounds saved
+ */
+export const finishRound = (
+  run: LoopRun,
+  session: InterviewSession
+): LoopRun => ({
+  ...run,
+  round: run.round + 1,
+  results: run.results.concat(roundResult(session, run.loop.rounds[run.round])),
+  memory: { ...run.memory, ...session.memoryKv },
+});
+
+/**
+ * What the interviewer of the next round is told about the loop
+ */
+export const describeLoopContext = (run: LoopRun) => {
+  const round = run.loop.rounds[run.round];
+  if (!round) {
+    return '';
+  }
+  const lines = [
+    `This is round ${run.round + 1} of ${run.loop.rounds.length} in the ` +
+      "candidate's interview loop. Save anything later interviewers should " +
+      'know about the candidate with the set_memory tool.',
+  ];
+  const notes = Object.entries(run.memory);
+  if (notes.length) {
+    lines.push(
+      'Earlier interviewers noted, to build on without repeating their questions:',
+      ...notes.map(([key, value]) => `- ${key}: ${value}`)
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * e.g. "Round 2 of 3, Onsite Loop", empty outside a loop
+ */
+export const describeLoopRound = (loop: SessionConfig['loop']) =>
+  loop ? `Round ${loop.round} of ${loop.rounds}, ${loop.name}` : '';
+
+export const RECOMMENDATIONS = [
+  { label: 'Strong Hire', minScore: 0.8 },
+  { label: 'Hire', minScore: 0.6 },
+  { label: 'No Hire', minScore: 0.4 },
+  { label: 'Strong No Hire', minScore: 0 },
+];
+
+/**
+ * Any round scoring below this, as a share of its scale, rules out a hire
+ */
+export const VETO_SCORE = 0.3;
+
+export interface LoopDebrief {
+  /**
+   * Each round's overall score as a share of its scale, from 0 to 1
+   */
+  rounds: (LoopRoundResult & { normalized: number | null })[];
+  average: number | null;
+  recommendation: string;
+  reasons: string[];
+}
+
+const normalize = ({ overall, scale }: LoopRoundResult) =>
+  overall === null || scale.max === scale.min
+    ? null
+    : (overall - scale.min) / (scale.max - scale.min);
+
+/**
+ * Combines the rounds' scores into a hiring recommendation
+ * Rounds are on different rubrics, so scores are compared as shares of
+ * their scales; rounds without an evaluation are left out
+ */
+export const buildDebrief = (results: LoopRoundResult[]): LoopDebrief => {
+  const rounds = results.map((result) => ({
+    ...result,
+    normalized: normalize(result),
+  }));
+  const scored = rounds.filter((round) => round.normalized !== null);
+  const reasons: string[] = [];
+  if (!scored.length) {
+    return {
+      rounds,
+      average: null,
+      recommendation: 'Incomplete',
+      reasons: ['No round has an evaluation.'],
+    };
+  }
+  const average =
+    scored.reduce((sum, round) => sum + (round.normalized || 0), 0) /
+    scored.length;
+  let recommendation = RECOMMENDATIONS.find(
+    ({ minScore }) => average >= minScore
+  )!.label;
+  reasons.push(
+    `Average score ${Math.round(average * 100)}% across ${
+      scored.length
+    } evaluated round${scored.length === 1 ? '' : 's'}.`
+  );
+  const noHire = RECOMMENDATIONS[2];
+  const vetoes = scored.filter((round) => round.normalized! < VETO_SCORE);
+  if (vetoes.length && average >= noHire.minScore) {
+    recommendation = noHire.label;
+    reasons.push(
+      `Capped at ${noHire.label}: scored below ` +
+        `${Math.round(VETO_SCORE * 100)}% with ` +
+        vetoes.map((round) => round.interviewerName).join(', ') +
+        '.'
+    );
+  }
+  const unscored = rounds.length - scored.length;
+  if (unscored) {
+    reasons.push(`Left out ${unscored} round(s) without an evaluation.`);
+  }
+  return { rounds, average, recommendation, reasons };
+};
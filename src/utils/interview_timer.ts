@@ -0,0 +1,236 @@
+import { DEFAULT_INTERVIEW_TYPE, InterviewType } from './interview_types';
+
+/**
+ * Interview length and phases
+ * Each phase gets a share of the interview; the interviewer moves between
+ * them with the set_phase tool and is kept on schedule by time updates
+ */
+export const INTERVIEW_PHASES = [
+  {
+    key: 'intro',
+    label: 'Introduction',
+    share: 0.05,
+    goal: 'Introduce yourself and the format, then present the problem',
+  },
+  {
+    key: 'clarification',
+    label: 'Clarification',
+    share: 0.15,
+    goal: 'Answer questions about the problem and agree on an approach',
+  },
+  {
+    key: 'coding',
+    label: 'Coding',
+    share: 0.5,
+    goal: 'Let the candidate implement their approach',
+  },
+  {
+    key: 'testing',
+    label: 'Testing',
+    share: 0.15,
+    goal: 'Have the candidate walk through test cases and fix bugs',
+  },
+  {
+    key: 'wrapUp',
+    label: 'Wrap-up',
+    share: 0.15,
+    goal: 'Discuss complexity and follow-ups, answer questions and close',
+  },
+] as const;
+
+export type InterviewPhase = (typeof INTERVIEW_PHASES)[number]['key'];
+
+/**
+ * Labels and goals of the phases in the other interview types; each phase
+ * keeps its key and its share of the time
+ */
+const PHASE_OVERRIDES: {
+  [type in InterviewType]?: {
+    [phase in InterviewPhase]: { label: string; goal: string };
+  };
+} = {
+  behavioral: {
+    intro: {
+      label: 'Introduction',
+      goal: 'Introduce yourself and the format',
+    },
+    clarification: {
+      label: 'Background',
+      goal: "Ask about the candidate's background and current role",
+    },
+    coding: {
+      label: 'Stories',
+      goal: 'Ask the main question and draw out a complete story with STAR follow-ups',
+    },
+    testing: {
+      label: 'Follow-ups',
+      goal: 'Ask one or two more questions on other competencies, probing for specifics',
+    },
+    wrapUp: {
+      label: 'Wrap-up',
+      goal: 'Answer questions the candidate has and close',
+    },
+  },
+  system_design: {
+    intro: {
+      label: 'Introduction',
+      goal: 'Introduce yourself and the format, then present the problem',
+    },
+    clarification: {
+      label: 'Requirements',
+      goal: 'Agree on features, constraints and scale estimates',
+    },
+    coding: {
+      label: 'Design',
+      goal: 'Let the candidate sketch the high-level design on the whiteboard',
+    },
+    testing: {
+      label: 'Deep Dive',
+      goal: 'Dig into bottlenecks, failure modes and trade-offs',
+    },
+    wrapUp: {
+      label: 'Wrap-up',
+      goal: 'Discuss how the design would evolve, answer questions and close',
+    },
+  },
+};
+
+/**
+ * The phases of an interview type, in order
+ */
+export const interviewPhases = (type: InterviewType = DEFAULT_INTERVIEW_TYPE) =>
+  INTERVIEW_PHASES.map((phase) => ({
+    ...phase,
+    ...PHASE_OVERRIDES[type]?.[phase.key],
+  }));
+
+export const INTERVIEW_DURATIONS = [15, 30, 45, 60];
+export const DEFAULT_DURATION_MINUTES = 45;
+
+/**
+ * How often the interviewer is told how much time is left
+ */
+export const TIME_UPDATE_INTERVAL_MS = 5 * 60_000;
+
+export const PHASE_TOOL_NAME = 'set_phase';
+
+export const PHASE_TOOL = {
+  name: PHASE_TOOL_NAME,
+  description:
+    'Moves the interview to another phase. Call this whenever the conversation moves on, e.g. from clarification to coding.',
+  parameters: {
+    type: 'object',
+    properties: {
+      phase: {
+        type: 'string',
+        enum: INTERVIEW_PHASES.map(({ key }) => key),
+        description: 'The phase the interview is now in',
+      },
+    },
+    required: ['phase'],
+  },
+};
+
+export const phaseLabel = (
+  phase: InterviewPhase,
+  type: InterviewType = DEFAULT_INTERVIEW_TYPE
+) => interviewPhases(type).find(({ key }) => key === phase)?.label || phase;
+
+export const phaseIndex = (phase: InterviewPhase) =>
+  INTERVIEW_PHASES.findIndex(({ key }) => key === phase);
+
+/**
+ * Planned start and end of each phase, in ms from the start
+ */
+export const phaseSchedule = (
+  durationMs: number,
+  type: InterviewType = DEFAULT_INTERVIEW_TYPE
+) => {
+  let startMs = 0;
+  return interviewPhases(type).map((phase) => {
+    const endMs = startMs + phase.share * durationMs;
+    const scheduled = { ...phase, startMs, endMs };
+    startMs = endMs;
+    return scheduled;
+  });
+};
+
+/**
+ * The phase the interview should be in after elapsedMs
+ */
+export const scheduledPhase = (
+  elapsedMs: number,
+  durationMs: number
+): InterviewPhase => {
+  const schedule = phaseSchedule(durationMs);
+  return (
+    schedule.find(({ endMs }) => elapsedMs < endMs) ||
+    schedule[schedule.length - 1]
+  ).key;
+};
+
+/**
+ * Remaining time as m:ss, or -m:ss when over time
+ */
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(Math.abs(ms) / 1000);
+  const sign = ms < 0 && seconds ? '-' : '';
+  return `${sign}${Math.floor(seconds / 60)}:${(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+/**
+ * Phase plan for the interviewer's instructions
+ */
+export const describeSchedule = (
+  durationMinutes: number,
+  type: InterviewType = DEFAULT_INTERVIEW_TYPE
+) => {
+  const lines = [
+    `The interview lasts ${durationMinutes} minutes, in these phases:`,
+  ];
+  for (const phase of phaseSchedule(durationMinutes * 60_000, type)) {
+    lines.push(
+      `- ${phase.key} (minute ${Math.round(
+        phase.startMs / 60_000
+      )} to ${Math.round(phase.endMs / 60_000)}): ${phase.goal}`
+    );
+  }
+  lines.push(
+    `Call the ${PHASE_TOOL_NAME} tool whenever you move to another phase. You will receive time updates as system messages; use them to keep the interview on schedule, without reading them out.`
+  );
+  return lines.join('\n');
+};
+
+/**
+ * Periodic update sent to the interviewer as a system message
+ */
+export const timeUpdateMessage = (
+  elapsedMs: number,
+  durationMs: number,
+  phase: InterviewPhase
+) => {
+  const minutes = (ms: number) => Math.max(0, Math.round(ms / 60_000));
+  const planned = scheduledPhase(elapsedMs, durationMs);
+  const lines = [
+    `Time update: ${minutes(elapsedMs)} minutes elapsed, ${minutes(
+      durationMs - elapsedMs
+    )} minutes left. Current phase: ${phase}.`,
+  ];
+  if (phaseIndex(planned) > phaseIndex(phase)) {
+    lines.push(
+      `The interview is behind schedule and should be in the ${planned} phase by now. Move it along.`
+    );
+  }
+  return lines.join(' ');
+};
+
+const WRAP_UP_TASKS: { [type in InterviewType]: string } = {
+  coding: 'briefly discuss complexity and follow-ups',
+  behavioral: 'let the candidate finish their current answer',
+  system_design: 'briefly discuss how the design would evolve',
+};
+
+export const wrapUpMessage = (type: InterviewType = DEFAULT_INTERVIEW_TYPE) =>
+  `Time update: the interview is entering the wrap-up phase. Stop the current work, ${WRAP_UP_TASKS[type]}, answer any questions the candidate has and thank them. Keep it short.`;
@@ -0,0 +1,46 @@
+/**
+ * Interview types
+ * Each has its own interviewer prompt, rubrics, questions and phase plan,
+ * and its own workspace next to the conversation: the code editor, a notes
+ * panel or a whiteboard
+ */
+export const INTERVIEW_TYPES = [
+  'coding',
+  'behavioral',
+  'system_design',
+] as const;
+export type InterviewType = (typeof INTERVIEW_TYPES)[number];
+
+export const DEFAULT_INTERVIEW_TYPE: InterviewType = 'coding';
+
+export type Workspace = 'editor' | 'notes' | 'whiteboard';
+
+export const INTERVIEW_TYPE_INFO: {
+  [type in InterviewType]: {
+    label: string;
+    description: string;
+    workspace: Workspace;
+  };
+} = {
+  coding: {
+    label: 'Coding',
+    description: 'Solve a coding problem in the editor, talking it through',
+    workspace: 'editor',
+  },
+  behavioral: {
+    label: 'Behavioral',
+    description: 'Answer questions about past experience, with STAR follow-ups',
+    workspace: 'notes',
+  },
+  system_design: {
+    label: 'System Design',
+    description: 'Design a system on the whiteboard and discuss trade-offs',
+    workspace: 'whiteboard',
+  },
+};
+
+export const isInterviewType = (value: any): value is InterviewType =>
+  INTERVIEW_TYPES.includes(value);
+
+export const interviewTypeLabel = (type: InterviewType | undefined) =>
+  INTERVIEW_TYPE_INFO[type || DEFAULT_INTERVIEW_TYPE].label;
@@ -0,0 +1,49 @@
+/**
+ * Hold-to-talk hotkey
+ * Keys are stored as KeyboardEvent.code, so the hotkey stays on the same
+ * physical key whatever the keyboard layout
+ */
+export const DEFAULT_PUSH_TO_TALK_KEY = 'Space';
+
+/**
+ * Elements that already use the keyboard; keys that type or activate
+ * are left to them
+ */
+const KEYBOARD_TARGETS = [
+  'input',
+  'textarea',
+  'select',
+  'button',
+  'a[href]',
+  '[contenteditable="true"]',
+  '[role="radio"]',
+  '[role="switch"]',
+  '.monaco-editor',
+].join(', ');
+
+/**
+ * Human-readable name for a key code, e.g. "KeyT" is "T"
+ */
+export const describeKey = (code: string) => {
+  if (!code) {
+    return 'None';
+  }
+  const match = code.match(/^(?:Key|Digit|Numpad)(.+)$/);
+  return match
+    ? match[1]
+    : code.replace(/(Left|Right)$/, ' ($1)').replace('Arrow', 'Arrow ');
+};
+
+/**
+ * Whether a key event is the hotkey rather than input for whatever has
+ * focus: a hotkey that types a character or activates (like Space or
+ * Enter) doesn't count while a text field, button or the editor is focused
+ */
+export const isPushToTalkKey = (e: KeyboardEvent, code: string) => {
+  if (!code || e.code !== code || e.ctrlKey || e.metaKey) {
+    return false;
+  }
+  const typesOrActivates = e.key.length === 1 || e.key === 'Enter';
+  const target = e.target instanceof Element ? e.target : null;
+  return !(typesOrActivates && target?.closest(KEYBOARD_TARGETS));
+};
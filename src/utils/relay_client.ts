@@ -0,0 +1,85 @@
+/**
+ * Running a local relay server will allow you to hide your API key
+ * and run custom logic on the server
+ *
+ * Set the local relay server address to:
+ * REACT_APP_LOCAL_RELAY_SERVER_URL=http://localhost:8081
+ *
+ * This will also require you to set OPENAI_API_KEY= in a `.env` file
+ * You can run it with `npm run relay`, in parallel with `npm start`
+ */
+export const LOCAL_RELAY_SERVER_URL: string =
+  process.env.REACT_APP_LOCAL_RELAY_SERVER_URL || '';
+
+/**
+ * The relay accepts both ws:// and http:// style addresses,
+ * fetch() only the latter
+ */
+export const toHttpUrl = (serverUrl: string) =>
+  serverUrl.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/+$/, '');
+
+/**
+ * Sign-in to a relay server that requires a token
+ * Invite codes are exchanged for a signed token (POST /auth/token), which
+ * is sent as a Bearer token over HTTP and as the RealtimeClient "API key"
+ * over the WebSocket. The OpenAI key itself never leaves the relay
+ */
+export interface RelayStatus {
+  required: boolean;
+  user?: string;
+  activeSessions?: number;
+  maxConcurrentSessions?: number;
+  minutesUsed?: number;
+  maxMinutesPerDay?: number;
+  minutesLeft?: number;
+}
+
+const TOKEN_KEY = 'tmp::relay_token';
+
+export const getRelayToken = () => localStorage.getItem(TOKEN_KEY) || '';
+
+export const clearRelayToken = () => localStorage.removeItem(TOKEN_KEY);
+
+export const relayHeaders = (): { [key: string]: string } => {
+  const token = getRelayToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/**
+ * Whether the relay requires a token, and the signed-in user's usage
+ * A rejected token is forgotten
+ */
+export async function fetchRelayStatus(
+  serverUrl: string
+): Promise<RelayStatus> {
+  const response = await fetch(`${toHttpUrl(serverUrl)}/auth`, {
+    headers: relayHeaders(),
+  });
+  const data = await response.json();
+  if (response.status === 401) {
+    clearRelayToken();
+    return { required: true };
+  }
+  if (!response.ok) {
+    throw new Error(
+      data.error || `Request failed with status ${response.status}`
+    );
+  }
+  return data;
+}
+
+export async function requestRelayToken(serverUrl: string, inviteCode: string) {
+  const response = await fetch(`${toHttpUrl(serverUrl)}/auth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ inviteCode }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      data.error || `Request failed with status ${response.status}`
+    );
+  }
+  localStorage.setItem(TOKEN_KEY, data.token);
+  return data as { user: string; token: string; expiresAt: string };
+}
@@ -0,0 +1,323 @@
+import {
+  CodeSnapshot,
+  InterviewSession,
+  StoredItem,
+  sessionTranscript,
+} from './session_store';
+import { createCodePlayback, measureEdits } from './edit_timeline';
+
+/**
+ * A saved session laid out on one timeline, in ms since it started
+ * Audio items become segments on the candidate and interviewer lanes;
+ * code comes from the edit timeline when there is one, and from code
+ * snapshots otherwise
+ */
+export const REPLAY_SAMPLE_RATE = 24000;
+
+export type ReplayLane = 'candidate' | 'interviewer';
+
+export interface ReplaySegment {
+  item: StoredItem;
+  lane: ReplayLane | null;
+  startMs: number;
+  durationMs: number;
+}
+
+export interface ReplayMarker {
+  atMs: number;
+  type: string;
+  label: string;
+}
+
+export interface ReplayTimeline {
+  durationMs: number;
+  segments: ReplaySegment[];
+  snapshots: (CodeSnapshot & { atMs: number })[];
+  markers: ReplayMarker[];
+  /**
+   * Typing playback, for sessions with an edit timeline
+   */
+  codeAt: ((atMs: number) => string) | null;
+}
+
+const LANES: { [role: string]: ReplayLane } = {
+  user: 'candidate',
+  assistant: 'interviewer',
+};
+
+/**
+ * Start times for sessions saved before items were timestamped, from the
+ * event log: when the candidate started speaking, or the item was created
+ * Repeated events are collapsed in the log, so not every item has one
+ */
+const eventTimes = (realtimeEvents: InterviewSession['realtimeEvents']) => {
+  const times: { [id: string]: string } = {};
+  for (const { time, source, event } of realtimeEvents) {
+    const id =
+      event.type === 'input_audio_buffer.speech_started'
+        ? event.item_id
+        : event.type === 'conversation.item.created'
+        ? event.item?.id
+        : null;
+    if (source === 'server' && id && !times[id]) {
+      times[id] = time;
+    }
+  }
+  return times;
+};
+
+const msSince = (startedAt: string) => {
+  const start = new Date(startedAt).valueOf();
+  return (time: string) => Math.max(0, new Date(time).valueOf() - start);
+};
+
+/**
+ * Conversation items placed on the timeline, with the length of their
+ * audio; untimed items go right after the previous one
+ */
+export const itemSegments = (
+  items: StoredItem[],
+  startedAt: string,
+  realtimeEvents: InterviewSession['realtimeEvents'] = []
+): ReplaySegment[] => {
+  const offset = msSince(startedAt);
+  const fallbackTimes = eventTimes(realtimeEvents);
+  let cursorMs = 0;
+  return items.map((item) => {
+    const time = item.startedAt || fallbackTimes[item.id];
+    const startMs = time ? offset(time) : cursorMs;
+    const durationMs =
+      (1000 * (item.formatted.audio?.length || 0)) / REPLAY_SAMPLE_RATE;
+    cursorMs = Math.max(cursorMs, startMs + durationMs);
+    return {
+      item,
+      lane: (durationMs && LANES[item.role || '']) || null,
+      startMs,
+      durationMs,
+    };
+  });
+};
+
+export const buildReplay = (session: InterviewSession): ReplayTimeline => {
+  const offset = msSince(session.startedAt);
+  const segments = itemSegments(
+    sessionTranscript(session),
+    session.startedAt,
+    session.realtimeEvents
+  );
+
+  const snapshots = session.codeSnapshots.map((snapshot) => ({
+    ...snapshot,
+    atMs: offset(snapshot.time),
+  }));
+  const markers = session.timeline.map(({ time, type, label }) => ({
+    atMs: offset(time),
+    type,
+    label,
+  }));
+  const { editTimeline } = session;
+  const durationMs = Math.max(
+    session.endedAt ? offset(session.endedAt) : 0,
+    ...segments.map((s) => s.startMs + s.durationMs),
+    ...snapshots.map((s) => s.atMs),
+    ...markers.map((m) => m.atMs),
+    editTimeline?.events[editTimeline.events.length - 1]?.t || 0
+  );
+  if (editTimeline) {
+    const edits = measureEdits(editTimeline, durationMs);
+    markers.push(
+      ...edits.pastes.map((paste) => ({
+        atMs: paste.t,
+        type: 'edit.paste',
+        label: `Pasted ${paste.chars} characters`,
+      })),
+      ...edits.rewrites.map((rewrite) => ({
+        atMs: rewrite.t,
+        type: 'edit.rewrite',
+        label: `Deleted ${rewrite.lines} lines`,
+      })),
+      ...edits.idlePeriods.map((idle) => ({
+        atMs: idle.startMs,
+        type: 'edit.idle',
+        label: `No edits for ${formatReplayTime(idle.durationMs)}`,
+      }))
+    );
+    markers.sort((a, b) => a.atMs - b.atMs);
+  }
+  return {
+    durationMs,
+    segments,
+    snapshots,
+    markers,
+    codeAt: editTimeline ? createCodePlayback(editTimeline) : null,
+  };
+};
+
+/**
+ * Position on the timeline as m:ss
+ */
+export const formatReplayTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+/**
+ * Editor contents at a moment: the latest snapshot taken by then
+ */
+export const snapshotAt = (replay: ReplayTimeline, atMs: number) => {
+  let found: ReplayTimeline['snapshots'][number] | null = null;
+  for (const snapshot of replay.snapshots) {
+    if (snapshot.atMs <= atMs) {
+      found = snapshot;
+    }
+  }
+  return found;
+};
+
+/**
+ * Conversation items that had started by a moment
+ */
+export const itemsAt = (replay: ReplayTimeline, atMs: number) =>
+  replay.segments
+    .filter((segment) => segment.startMs <= atMs)
+    .map((segment) => segment.item);
+
+/**
+ * Peak amplitude of a lane's audio in each of `buckets` slices of the
+ * timeline, for drawing with WavRenderer
+ */
+export const laneAmplitudes = (
+  replay: ReplayTimeline,
+  lane: ReplayLane,
+  buckets: number
+) => {
+  const peaks = new Float32Array(buckets);
+  if (!replay.durationMs) {
+    return peaks;
+  }
+  const msPerBucket = replay.durationMs / buckets;
+  for (const segment of replay.segments) {
+    const audio = segment.item.formatted.audio;
+    if (segment.lane !== lane || !audio) {
+      continue;
+    }
+    for (let i = 0; i < audio.length; i++) {
+      const atMs = segment.startMs + (1000 * i) / REPLAY_SAMPLE_RATE;
+      const bucket = Math.min(buckets - 1, Math.floor(atMs / msPerBucket));
+      const amplitude = Math.abs(audio[i]) / 0x8000;
+      if (amplitude > peaks[bucket]) {
+        peaks[bucket] = amplitude;
+      }
+    }
+  }
+  return peaks;
+};
+
+/**
+ * Plays the lanes' audio from any position with Web Audio, scheduling
+ * each segment at its offset on the timeline
+ */
+export class ReplayPlayer {
+  private context: AudioContext | null = null;
+  private buffers = new Map<ReplaySegment, AudioBuffer>();
+  private sources: AudioBufferSourceNode[] = [];
+  private startedAt = 0;
+  private startMs = 0;
+  isPlaying = false;
+
+  constructor(private replay: ReplayTimeline) {}
+
+  private getContext() {
+    if (!this.context) {
+      this.context = new AudioContext({ sampleRate: REPLAY_SAMPLE_RATE });
+    }
+    return this.context;
+  }
+
+  private bufferFor(segment: ReplaySegment) {
+    let buffer = this.buffers.get(segment);
+    const audio = segment.item.formatted.audio;
+    if (!buffer && audio?.length) {
+      buffer = this.getContext().createBuffer(
+        1,
+        audio.length,
+        REPLAY_SAMPLE_RATE
+      );
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < audio.length; i++) {
+        channel[i] = audio[i] / 0x8000;
+      }
+      this.buffers.set(segment, buffer);
+    }
+    return buffer || null;
+  }
+
+  /**
+   * Current position in ms, while playing or paused
+   */
+  position() {
+    if (!this.isPlaying || !this.context) {
+      return this.startMs;
+    }
+    return Math.min(
+      this.replay.durationMs,
+      this.startMs + (this.context.currentTime - this.startedAt) * 1000
+    );
+  }
+
+  async play(fromMs = this.position()) {
+    this.stopSources();
+    const context = this.getContext();
+    await context.resume();
+    this.startMs = fromMs;
+    this.startedAt = context.currentTime;
+    for (const segment of this.replay.segments) {
+      const endMs = segment.startMs + segment.durationMs;
+      const buffer = segment.lane && this.bufferFor(segment);
+      if (!buffer || endMs <= fromMs) {
+        continue;
+      }
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.start(
+        this.startedAt + Math.max(0, segment.startMs - fromMs) / 1000,
+        Math.max(0, fromMs - segment.startMs) / 1000
+      );
+      this.sources.push(source);
+    }
+    this.isPlaying = true;
+  }
+
+  pause() {
+    this.startMs = this.position();
+    this.stopSources();
+    this.isPlaying = false;
+  }
+
+  seek(toMs: number) {
+    const atMs = Math.max(0, Math.min(this.replay.durationMs, toMs));
+    if (this.isPlaying) {
+      return this.play(atMs);
+    }
+    this.startMs = atMs;
+  }
+
+  private stopSources() {
+    for (const source of this.sources) {
+      source.stop();
+      source.disconnect();
+    }
+    this.sources = [];
+  }
+
+  async close() {
+    this.stopSources();
+    this.isPlaying = false;
+    await this.context?.close();
+    this.context = null;
+    this.buffers.clear();
+  }
+}
@@ -0,0 +1,451 @@
+import {
+  InterviewSession,
+  StoredItem,
+  sessionRubric,
+  sessionTranscript,
+} from './session_store';
+import { normalizedWeights } from '../rubrics';
+import { levelDescriptor, overallScore } from './evaluation';
+import { describeEditMetrics, measureEdits } from './edit_timeline';
+import {
+  describeSpeechMetrics,
+  measureSessionSpeech,
+} from './speech_analytics';
+import { describeHintUsage, hintDeductions } from './hints';
+import { interviewTypeLabel } from './interview_types';
+import { describeDiagram } from './diagram';
+import { describeLoopRound } from './interview_loop';
+import { DEFAULT_PERSONA } from '../personas';
+
+/**
+ * Interview reports, exported as Markdown or self-contained HTML
+ * The HTML report carries a print stylesheet so it can be saved as PDF
+ */
+interface ReportData {
+  title: string;
+  meta: [string, string][];
+  statement: string;
+  rubric: string;
+  overall: number | null;
+  scale: { min: number; max: number };
+  scores: {
+    key: string;
+    label: string;
+    weight: number;
+    value: number | null;
+    /**
+     * Points taken off value for hints
+     */
+    deduction: number;
+    level: string;
+    justification: string;
+    evidence: string[];
+  }[];
+  summary: string;
+  editing: string[];
+  communication: string[];
+  hints: string[];
+  notes: string;
+  whiteboard: string;
+  finalCode: { language: string; code: string } | null;
+  revisions: { label: string; language: string; code: string }[];
+  transcript: { speaker: string; text: string }[];
+  timeline: { offset: string; label: string }[];
+}
+
+/**
+ * Time since the start of the interview, as mm:ss
+ */
+const formatOffset = (time: string, startedAt: string) => {
+  const seconds = Math.max(
+    0,
+    Math.round(
+      (new Date(time).valueOf() - new Date(startedAt).valueOf()) / 1000
+    )
+  );
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`;
+};
+
+const describeItem = (item: StoredItem) => {
+  const { formatted } = item;
+  if (item.type === 'function_call_output') {
+    try {
+      return JSON.parse(formatted.output || '')?.summary || formatted.output;
+    } catch (e) {
+      return formatted.output || '';
+    }
+  }
+  if (formatted.tool) {
+    return `${formatted.tool.name}(${formatted.tool.arguments})`;
+  }
+  return formatted.transcript || formatted.text || '';
+};
+
+const SPEAKERS: { [role: string]: string } = {
+  user: 'Candidate',
+  assistant: 'Interviewer',
+};
+
+const collectReport = (session: InterviewSession): ReportData => {
+  const { config, startedAt, endedAt } = session;
+  const finalSnapshot =
+    session.codeSnapshots[session.codeSnapshots.length - 1] || null;
+  const rubric = sessionRubric(session);
+  const weights = normalizedWeights(rubric);
+  const { editTimeline } = session;
+  const editing = editTimeline
+    ? describeEditMetrics(
+        measureEdits(
+          editTimeline,
+          endedAt
+            ? new Date(endedAt).valueOf() - new Date(startedAt).valueOf()
+            : editTimeline.events[editTimeline.events.length - 1]?.t || 0
+        )
+      )
+    : [];
+  const hints = session.hints || [];
+  const deductions = hintDeductions(rubric, hints);
+  const scores = rubric.dimensions.map(({ key, label, levels }) => {
+    const dimension = session.evaluation?.dimensions[key];
+    const score = dimension ? dimension.score : session.feedback[key] ?? null;
+    const deduction = score === null ? 0 : deductions[key] || 0;
+    const value =
+      score === null ? null : Math.max(rubric.scale.min, score - deduction);
+    return {
+      key,
+      label,
+      weight: Math.round(100 * weights[key]),
+      value,
+      deduction,
+      level: value === null ? '' : levelDescriptor(levels, value),
+      justification: dimension?.justification || '',
+      evidence: dimension?.evidence || [],
+    };
+  });
+  return {
+    title: `Interview Report: ${
+      config.questionTitle ||
+      `${interviewTypeLabel(config.interviewType)} Interview`
+    }`,
+    meta: [
+      ['Interview Type', interviewTypeLabel(config.interviewType)],
+      ['Date', new Date(startedAt).toLocaleString()],
+      [
+        'Duration',
+        endedAt ? formatOffset(endedAt, startedAt) : 'Did not finish',
+      ],
+      [
+        'Planned Length',
+        config.durationMinutes ? `${config.durationMinutes} minutes` : '-',
+      ],
+      ['Company', config.company || '-'],
+      ['Interview Loop', describeLoopRound(config.loop) || '-'],
+      ['Interviewer', config.interviewerName || DEFAULT_PERSONA.name],
+      ['Persona', config.persona],
+      ['Language', config.language || '-'],
+      ['Mode', config.mode === 'text' ? 'Text chat' : 'Voice'],
+    ],
+    statement: config.questionStatement,
+    rubric: rubric.name,
+    overall: overallScore(
+      Object.fromEntries(scores.map((s) => [s.key, s.value])),
+      rubric
+    ),
+    scale: rubric.scale,
+    scores,
+    summary: session.evaluation?.summary || '',
+    editing,
+    communication: describeSpeechMetrics(measureSessionSpeech(session)),
+    hints: [
+      describeHintUsage(hints),
+      ...hints.map(
+        (hint) =>
+          `${formatOffset(hint.time, startedAt)} Level ${hint.level}` +
+          `${hint.requested ? ' (requested)' : ''}: ${hint.hint}`
+      ),
+    ],
+    notes: session.notes?.trim() || '',
+    whiteboard: session.diagram ? describeDiagram(session.diagram) : '',
+    finalCode: finalSnapshot && {
+      language: finalSnapshot.language,
+      code: finalSnapshot.code,
+    },
+    revisions: session.codeSnapshots
+      .filter((snapshot) => snapshot.reason !== 'final')
+      .map((snapshot, i) => ({
+        label: `Revision ${i + 1} (${snapshot.reason}) at ${formatOffset(
+          snapshot.time,
+          startedAt
+        )}`,
+        language: snapshot.language,
+        code: snapshot.code,
+      })),
+    transcript: sessionTranscript(session).map((item) => ({
+      speaker: SPEAKERS[item.role || ''] || item.role || item.type,
+      text: describeItem(item),
+    })),
+    timeline: session.timeline.map((event) => ({
+      offset: formatOffset(event.time, startedAt),
+      label: event.label,
+    })),
+  };
+};
+
+const fence = (code: string, language = '') => {
+  const ticks = code.includes('```') ? '````' : '```';
+  return `${ticks}${language}\n${code}\n${ticks}`;
+};
+
+export const buildMarkdownReport = (session: InterviewSession) => {
+  const report = collectReport(session);
+  const lines = [`# ${report.title}`, ''];
+  lines.push(
+    ...report.meta.map(([label, value]) => `- **${label}:** ${value}`)
+  );
+  if (report.statement) {
+    lines.push('', '## Problem', '', report.statement);
+  }
+  const { max } = report.scale;
+  lines.push(
+    '',
+    '## Scores',
+    '',
+    `Rubric: ${report.rubric}. Overall: **${report.overall ?? '-'} / ${max}**`,
+    '',
+    '| Dimension | Weight | Score | Level |',
+    '| --- | --- | --- | --- |'
+  );
+  lines.push(
+    ...report.scores.map(
+      (s) =>
+        `| ${s.label} | ${s.weight}% | ${s.value ?? '-'} / ${max}${
+          s.deduction ? ` (−${s.deduction} for hints)` : ''
+        } | ${s.level || '-'} |`
+    )
+  );
+  if (report.summary) {
+    lines.push('', report.summary);
+  }
+  for (const score of report.scores.filter((s) => s.justification)) {
+    lines.push('', `### ${score.label}`, '', score.justification);
+    lines.push(...score.evidence.map((quote) => `> ${quote}`));
+  }
+  if (report.editing.length) {
+    lines.push('', '## Editing Activity', '');
+    lines.push(...report.editing.map((line) => `- ${line}`));
+  }
+  lines.push('', '## Communication Analytics', '');
+  lines.push(...report.communication.map((line) => `- ${line}`));
+  lines.push('', '## Hints', '');
+  lines.push(...report.hints.map((line) => `- ${line}`));
+  if (report.notes) {
+    lines.push('', '## Notes', '', fence(report.notes));
+  }
+  if (report.whiteboard) {
+    lines.push('', '## Whiteboard', '', fence(report.whiteboard));
+  }
+  if (report.finalCode) {
+    lines.push(
+      '',
+      '## Final Code',
+      '',
+      fence(report.finalCode.code, report.finalCode.language)
+    );
+  }
+  if (report.revisions.length) {
+    lines.push('', '## Code Revisions');
+    for (const revision of report.revisions) {
+      lines.push(
+        '',
+        `### ${revision.label}`,
+        '',
+        fence(revision.code, revision.language)
+      );
+    }
+  }
+  lines.push('', '## Transcript', '');
+  for (const entry of report.transcript) {
+    lines.push(`**${entry.speaker}:** ${entry.text}`, '');
+  }
+  lines.push('## Timeline', '');
+  lines.push(...report.timeline.map((e) => `- \`${e.offset}\` ${e.label}`));
+  return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const REPORT_STYLES = `
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #18181b; max-width: 860px; margin: 32px auto; padding: 0 16px; line-height: 1.5; }
+h1 { font-size: 24px; } h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; } h3 { font-size: 14px; }
+pre { background: #f4f4f5; padding: 12px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; font-family: 'Roboto Mono', monospace; font-size: 12px; }
+table { border-collapse: collapse; } td, th { border: 1px solid #e5e7eb; padding: 4px 12px; text-align: left; }
+.meta td:first-child { font-weight: bold; } .statement { white-space: pre-wrap; }
+.score-bar { display: inline-block; width: 120px; height: 8px; background: #e5e7eb; border-radius: 4px; margin-right: 8px; vertical-align: middle; }
+.score-bar span { display: block; height: 100%; background: #8c71e7; border-radius: 4px; }
+blockquote { margin: 4px 0; padding-left: 8px; border-left: 3px solid #8c71e7; color: #52525b; }
+.speaker { font-weight: bold; } .entry { margin: 8px 0; } .offset { color: #71717a; font-family: monospace; }
+@media print {
+  body { margin: 0; max-width: none; font-size: 11pt; }
+  h2 { break-after: avoid; } pre, .entry, tr { break-inside: avoid; }
+  .score-bar, .score-bar span { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`;
+
+export const buildHtmlReport = (session: InterviewSession) => {
+  const report = collectReport(session);
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)}</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    '</head><body>',
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    '<table class="meta">',
+    ...report.meta.map(
+      ([label, value]) =>
+        `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`
+    ),
+    '</table>',
+  ];
+  if (report.statement) {
+    html.push(
+      '<h2>Problem</h2>',
+      `<div class="statement">${escapeHtml(report.statement)}</div>`
+    );
+  }
+  const { min, max } = report.scale;
+  html.push(
+    '<h2>Scores</h2>',
+    `<p>Rubric: ${escapeHtml(report.rubric)}. Overall: <strong>${
+      report.overall ?? '-'
+    } / ${max}</strong></p>`,
+    '<table>',
+    '<tr><th>Dimension</th><th>Weight</th><th>Score</th><th>Level</th></tr>'
+  );
+  html.push(
+    ...report.scores.map(
+      (s) =>
+        `<tr><td>${escapeHtml(s.label)}</td><td>${s.weight}%</td>` +
+        `<td><span class="score-bar"><span style="width: ${
+          s.value === null ? 0 : (100 * (s.value - min)) / (max - min)
+        }%"></span></span>${s.value ?? '-'} / ${max}${
+          s.deduction ? ` (−${s.deduction} for hints)` : ''
+        }</td>` +
+        `<td>${escapeHtml(s.level)}</td></tr>`
+    )
+  );
+  html.push('</table>');
+  if (report.summary) {
+    html.push(`<p>${escapeHtml(report.summary)}</p>`);
+  }
+  for (const score of report.scores.filter((s) => s.justification)) {
+    html.push(
+      `<h3>${escapeHtml(score.label)}</h3>`,
+      `<p>${escapeHtml(score.justification)}</p>`,
+      ...score.evidence.map(
+        (quote) => `<blockquote>${escapeHtml(quote)}</blockquote>`
+      )
+    );
+  }
+  if (report.editing.length) {
+    html.push(
+      '<h2>Editing Activity</h2>',
+      '<ul>',
+      ...report.editing.map((line) => `<li>${escapeHtml(line)}</li>`),
+      '</ul>'
+    );
+  }
+  html.push(
+    '<h2>Communication Analytics</h2>',
+    '<ul>',
+    ...report.communication.map((line) => `<li>${escapeHtml(line)}</li>`),
+    '</ul>',
+    '<h2>Hints</h2>',
+    '<ul>',
+    ...report.hints.map((line) => `<li>${escapeHtml(line)}</li>`),
+    '</ul>'
+  );
+  if (report.notes) {
+    html.push('<h2>Notes</h2>', `<pre>${escapeHtml(report.notes)}</pre>`);
+  }
+  if (report.whiteboard) {
+    html.push(
+      '<h2>Whiteboard</h2>',
+      `<pre>${escapeHtml(report.whiteboard)}</pre>`
+    );
+  }
+  if (report.finalCode) {
+    html.push(
+      '<h2>Final Code</h2>',
+      `<pre>${escapeHtml(report.finalCode.code)}</pre>`
+    );
+  }
+  if (report.revisions.length) {
+    html.push('<h2>Code Revisions</h2>');
+    for (const revision of report.revisions) {
+      html.push(
+        `<h3>${escapeHtml(revision.label)}</h3>`,
+        `<pre>${escapeHtml(revision.code)}</pre>`
+      );
+    }
+  }
+  html.push('<h2>Transcript</h2>');
+  html.push(
+    ...report.transcript.map(
+      (entry) =>
+        `<div class="entry"><span class="speaker">${escapeHtml(
+          entry.speaker
+        )}:</span> ${escapeHtml(entry.text)}</div>`
+    )
+  );
+  html.push('<h2>Timeline</h2>', '<ul>');
+  html.push(
+    ...report.timeline.map(
+      (e) =>
+        `<li><span class="offset">${e.offset}</span> ${escapeHtml(
+          e.label
+        )}</li>`
+    )
+  );
+  html.push('</ul>', '</body></html>');
+  return html.join('\n');
+};
+
+export const reportFilename = (session: InterviewSession, extension: string) =>
+  `interview-${session.startedAt
+    .slice(0, 19)
+    .replace(/[:T]/g, '-')}.${extension}`;
+
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Opens the HTML report in a new window and brings up the print dialog
+ */
+export const printReport = (session: InterviewSession) => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) {
+    return false;
+  }
+  reportWindow.document.write(buildHtmlReport(session));
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+};
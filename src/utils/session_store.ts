@@ -0,0 +1,327 @@
+import { DEFAULT_RUBRIC, Rubric } from '../rubrics';
+import { relayHeaders, toHttpUrl } from './relay_client';
+import { Evaluation } from './evaluation';
+import { EditTimeline } from './edit_timeline';
+import { HintUsage } from './hints';
+import { InterviewType } from './interview_types';
+import { Diagram } from './diagram';
+
+/**
+ * Interview sessions saved to IndexedDB, and optionally to the relay server
+ */
+export interface TimelineEvent {
+  time: string;
+  type: string;
+  label: string;
+}
+
+export interface CodeSnapshot {
+  time: string;
+  code: string;
+  language: string;
+  reason: 'sync' | 'submit' | 'final';
+}
+
+/**
+ * Conversation item without its decoded audio file, which is rebuilt
+ * from the raw PCM16 audio when a session is reopened
+ */
+export interface StoredItem {
+  id: string;
+  type: string;
+  role?: string;
+  status?: string;
+  /**
+   * When the candidate started speaking, or the item first appeared
+   * Missing on sessions saved before replays
+   */
+  startedAt?: string;
+  formatted: {
+    text?: string;
+    transcript?: string;
+    audio?: Int16Array;
+    tool?: { type: string; name: string; call_id: string; arguments: string };
+    output?: string;
+    file?: { url: string };
+  };
+}
+
+/**
+ * Voice interviews talk over the microphone and speakers; text interviews
+ * are typed, chat-style
+ */
+export type InterviewMode = 'voice' | 'text';
+
+export interface SessionConfig {
+  company: string;
+  persona: string;
+  language: string;
+  questionId: string;
+  questionTitle: string;
+  questionStatement: string;
+  /**
+   * Planned length, missing on sessions saved before the timer existed
+   */
+  durationMinutes?: number;
+  /**
+   * Missing on sessions saved before text mode, which were all voice
+   */
+  mode?: InterviewMode;
+  /**
+   * Missing on sessions saved before interview types, which were all coding
+   */
+  interviewType?: InterviewType;
+  /**
+   * The loop the session is a round of, from 1, when it is part of one
+   */
+  loop?: { id: string; name: string; round: number; rounds: number };
+  /**
+   * The persona the interviewer played, see src/personas
+   */
+  personaId?: string;
+  interviewerName?: string;
+  voice?: string;
+}
+
+export interface InterviewSession {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  config: SessionConfig;
+  items: StoredItem[];
+  realtimeEvents: {
+    time: string;
+    source: string;
+    count?: number;
+    event: { [key: string]: any };
+  }[];
+  feedback: { [key: string]: number };
+  /**
+   * Full copy of the rubric the session was scored against, so later edits
+   * to a rubric don't change old reports
+   */
+  rubric?: Rubric;
+  /**
+   * Interviewer system prompt; sessions saved before it was sent as
+   * instructions have it as their first conversation item instead
+   */
+  instructions?: string;
+  evaluation?: Evaluation | null;
+  codeSnapshots: CodeSnapshot[];
+  /**
+   * Every change made in the editor, missing on older sessions
+   */
+  editTimeline?: EditTimeline;
+  /**
+   * Hints given through the hint tool, missing on older sessions
+   */
+  hints?: HintUsage[];
+  /**
+   * Behavioral notes and the system-design whiteboard, in those interviews
+   */
+  notes?: string;
+  diagram?: Diagram;
+  memoryKv: { [key: string]: any };
+  timeline: TimelineEvent[];
+}
+
+/**
+ * Sessions saved before rubrics were configurable used the default one
+ */
+export const sessionRubric = (session: InterviewSession) =>
+  session.rubric || DEFAULT_RUBRIC;
+
+/**
+ * Conversation items without the prompt message of older sessions
+ */
+export const sessionTranscript = (session: InterviewSession) =>
+  session.instructions === undefined ? session.items.slice(1) : session.items;
+
+const DB_NAME = 'intraview';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          const store = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const sessionsStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  return db.transaction(SESSIONS, mode).objectStore(SESSIONS);
+};
+
+/**
+ * Copies the parts of a RealtimeClient item worth keeping
+ */
+export const serializeItem = (item: any, startedAt?: string): StoredItem => ({
+  id: item.id,
+  type: item.type,
+  role: item.role,
+  status: item.status,
+  startedAt,
+  formatted: {
+    text: item.formatted?.text,
+    transcript: item.formatted?.transcript,
+    audio: item.formatted?.audio?.length ? item.formatted.audio : void 0,
+    tool: item.formatted?.tool,
+    output: item.formatted?.output,
+  },
+});
+
+/**
+ * Audio deltas make up most of the event log's size and are already kept
+ * on the items, so event payloads only keep their length
+ */
+export const stripAudioPayloads = (event: { [key: string]: any }) => {
+  const stripped = { ...event };
+  for (const key of ['audio', 'delta']) {
+    if (
+      typeof stripped[key] === 'string' &&
+      stripped.type?.includes('audio') &&
+      stripped[key].length > 64
+    ) {
+      stripped[key] = `[${stripped[key].length} base64 characters of audio]`;
+    }
+  }
+  return stripped;
+};
+
+/**
+ * A session on the relay server, without its items or audio
+ */
+export type UploadedSession = Pick<
+  InterviewSession,
+  'id' | 'startedAt' | 'endedAt' | 'config'
+>;
+
+/**
+ * WAV files from the relay start with a 44 byte header before the PCM16
+ */
+const WAV_HEADER_BYTES = 44;
+
+const relayFetch = async (
+  serverUrl: string,
+  pathname: string,
+  init: RequestInit = {}
+) => {
+  const response = await fetch(`${toHttpUrl(serverUrl)}${pathname}`, {
+    ...init,
+    headers: { ...init.headers, ...relayHeaders() },
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(
+      data.error || `Request failed with status ${response.status}`
+    );
+  }
+  return response;
+};
+
+export const SessionStore = {
+  save: async (session: InterviewSession) => {
+    const store = await sessionsStore('readwrite');
+    await promisify(store.put(session));
+  },
+
+  get: async (id: string): Promise<InterviewSession | null> => {
+    const store = await sessionsStore('readonly');
+    return (await promisify(store.get(id))) || null;
+  },
+
+  /**
+   * All saved sessions, newest first
+   */
+  list: async (): Promise<InterviewSession[]> => {
+    const store = await sessionsStore('readonly');
+    const sessions: InterviewSession[] = await promisify(store.getAll());
+    return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  },
+
+  remove: async (id: string) => {
+    const store = await sessionsStore('readwrite');
+    await promisify(store.delete(id));
+  },
+
+  /**
+   * Uploads a session to the relay server as JSON, then each item's audio
+   * as raw PCM16, so a long interview isn't one request too large to send
+   */
+  upload: async (serverUrl: string, session: InterviewSession) => {
+    const post = (pathname: string, init: RequestInit) =>
+      relayFetch(serverUrl, pathname, { method: 'POST', ...init });
+    await post('/sessions', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...session,
+        items: session.items.map((item) => ({
+          ...item,
+          formatted: { ...item.formatted, audio: undefined },
+        })),
+      }),
+    });
+    for (const item of session.items) {
+      const audio = item.formatted.audio;
+      if (audio?.length) {
+        const params = new URLSearchParams({ id: session.id, item: item.id });
+        await post(`/sessions/audio?${params}`, {
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: audio,
+        });
+      }
+    }
+  },
+
+  /**
+   * Sessions uploaded to the relay server, from any browser, newest first
+   */
+  listUploaded: async (serverUrl: string): Promise<UploadedSession[]> => {
+    const response = await relayFetch(serverUrl, '/sessions');
+    return (await response.json()).sessions;
+  },
+
+  /**
+   * An uploaded session with its items' audio, as saved by upload()
+   */
+  download: async (
+    serverUrl: string,
+    id: string
+  ): Promise<InterviewSession> => {
+    const get = (pathname: string, params: { [key: string]: string }) =>
+      relayFetch(serverUrl, `${pathname}?${new URLSearchParams(params)}`);
+    const { owner, ...session } = await (await get('/sessions', { id })).json();
+    const { items: audioItems }: { items: string[] } = await (
+      await get('/sessions/audio', { id })
+    ).json();
+    for (const item of session.items as StoredItem[]) {
+      if (audioItems.includes(item.id)) {
+        const wav = await get('/sessions/audio', { id, item: item.id });
+        item.formatted.audio = new Int16Array(
+          (await wav.arrayBuffer()).slice(WAV_HEADER_BYTES)
+        );
+      }
+    }
+    return session;
+  },
+};
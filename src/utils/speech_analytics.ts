@@ -0,0 +1,173 @@
+import {
+  InterviewSession,
+  TimelineEvent,
+  sessionTranscript,
+} from './session_store';
+import { ReplaySegment, formatReplayTime, itemSegments } from './replay';
+
+/**
+ * Communication analytics from the conversation's audio and transcripts:
+ * who talked how much, silences, the candidate's pace, filler words and
+ * interruptions
+ */
+export const FILLER_WORDS = [
+  'um',
+  'uh',
+  'erm',
+  'hmm',
+  'like',
+  'you know',
+  'i mean',
+  'basically',
+  'actually',
+  'sort of',
+  'kind of',
+];
+
+/**
+ * Timeline event recorded when the candidate talks over the interviewer
+ */
+export const INTERRUPTION_EVENT = 'speech.interrupted';
+
+export interface SpeechMetrics {
+  candidateTalkMs: number;
+  interviewerTalkMs: number;
+  /**
+   * Candidate's share of the talk time, from 0 to 1
+   */
+  talkRatio: number | null;
+  longestSilenceMs: number;
+  candidateWords: number;
+  wordsPerMinute: number | null;
+  fillers: { [word: string]: number };
+  fillerCount: number;
+  interruptions: number;
+}
+
+const words = (text: string) => text.toLowerCase().match(/[a-z']+/g) || [];
+
+/**
+ * Occurrences of each filler, matched on whole words
+ */
+export const countFillers = (text: string) => {
+  const spoken = words(text);
+  const counts: { [word: string]: number } = {};
+  for (const filler of FILLER_WORDS) {
+    const parts = filler.split(' ');
+    let count = 0;
+    for (let i = 0; i + parts.length <= spoken.length; i++) {
+      if (parts.every((part, j) => spoken[i + j] === part)) {
+        count++;
+      }
+    }
+    if (count) {
+      counts[filler] = count;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Longest gap in which neither side was speaking, between the first and
+ * the last speech
+ */
+const longestSilence = (segments: ReplaySegment[]) => {
+  const speech = segments
+    .filter((segment) => segment.lane)
+    .sort((a, b) => a.startMs - b.startMs);
+  let longest = 0;
+  let spokenUntil: number | null = null;
+  for (const { startMs, durationMs } of speech) {
+    if (spokenUntil !== null) {
+      longest = Math.max(longest, startMs - spokenUntil);
+    }
+    spokenUntil = Math.max(spokenUntil ?? 0, startMs + durationMs);
+  }
+  return longest;
+};
+
+export const countInterruptions = (timeline: TimelineEvent[]) =>
+  timeline.filter((event) => event.type === INTERRUPTION_EVENT).length;
+
+export const measureSpeech = (
+  segments: ReplaySegment[],
+  interruptions: number
+): SpeechMetrics => {
+  let candidateTalkMs = 0;
+  let interviewerTalkMs = 0;
+  let candidateWords = 0;
+  const fillers: { [word: string]: number } = {};
+  for (const { lane, durationMs, item } of segments) {
+    if (lane === 'interviewer') {
+      interviewerTalkMs += durationMs;
+    } else if (lane === 'candidate') {
+      candidateTalkMs += durationMs;
+      const transcript = item.formatted.transcript || '';
+      candidateWords += words(transcript).length;
+      for (const [word, count] of Object.entries(countFillers(transcript))) {
+        fillers[word] = (fillers[word] || 0) + count;
+      }
+    }
+  }
+  const totalTalkMs = candidateTalkMs + interviewerTalkMs;
+  return {
+    candidateTalkMs,
+    interviewerTalkMs,
+    talkRatio: totalTalkMs ? candidateTalkMs / totalTalkMs : null,
+    longestSilenceMs: longestSilence(segments),
+    candidateWords,
+    wordsPerMinute: candidateTalkMs
+      ? Math.round(candidateWords / (candidateTalkMs / 60_000))
+      : null,
+    fillers,
+    fillerCount: Object.values(fillers).reduce((sum, n) => sum + n, 0),
+    interruptions,
+  };
+};
+
+export const measureSessionSpeech = (session: InterviewSession) =>
+  measureSpeech(
+    itemSegments(
+      sessionTranscript(session),
+      session.startedAt,
+      session.realtimeEvents
+    ),
+    countInterruptions(session.timeline)
+  );
+
+/**
+ * Most frequent fillers first, e.g. "um 5, like 3"
+ */
+export const describeFillers = (fillers: SpeechMetrics['fillers']) =>
+  Object.entries(fillers)
+    .sort((a, b) => b[1] - a[1])
+    .map(([word, count]) => `${word} ${count}`)
+    .join(', ');
+
+/**
+ * One line per signal, as shared with the interviewer and in reports
+ */
+export const describeSpeechMetrics = (metrics: SpeechMetrics) => {
+  if (metrics.talkRatio === null) {
+    return ['No speech was recorded'];
+  }
+  const candidateShare = Math.round(metrics.talkRatio * 100);
+  return [
+    `Talk time: candidate ${formatReplayTime(metrics.candidateTalkMs)} ` +
+      `(${candidateShare}%), interviewer ` +
+      `${formatReplayTime(metrics.interviewerTalkMs)} (${
+        100 - candidateShare
+      }%)`,
+    `Longest silence: ${formatReplayTime(metrics.longestSilenceMs)}`,
+    metrics.wordsPerMinute === null
+      ? 'Speaking pace: -'
+      : `Speaking pace: ${metrics.wordsPerMinute} words per minute ` +
+        `(${metrics.candidateWords} words)`,
+    metrics.fillerCount
+      ? `Filler words: ${metrics.fillerCount} (${describeFillers(
+          metrics.fillers
+        )})`
+      : 'Filler words: none',
+    `Interruptions of the interviewer: ${metrics.interruptions}`,
+  ];
+};
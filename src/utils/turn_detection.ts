@@ -0,0 +1,78 @@
+/**
+ * Server voice activity detection (VAD), which decides when the candidate
+ * has finished speaking and the interviewer may reply
+ * - threshold is how loud audio must be to count as speech, from 0 to 1
+ * - prefixPaddingMs is audio kept from before speech was detected
+ * - silenceDurationMs is how long a pause ends the candidate's turn
+ */
+export interface VadSettings {
+  threshold: number;
+  prefixPaddingMs: number;
+  silenceDurationMs: number;
+}
+
+/**
+ * The server's own defaults
+ */
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  threshold: 0.5,
+  prefixPaddingMs: 300,
+  silenceDurationMs: 500,
+};
+
+export const VAD_RANGES: {
+  [key in keyof VadSettings]: {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+  };
+} = {
+  threshold: { label: 'Threshold', min: 0, max: 1, step: 0.05, unit: '' },
+  prefixPaddingMs: {
+    label: 'Prefix padding',
+    min: 0,
+    max: 1000,
+    step: 50,
+    unit: 'ms',
+  },
+  silenceDurationMs: {
+    label: 'Silence duration',
+    min: 200,
+    max: 3000,
+    step: 50,
+    unit: 'ms',
+  },
+};
+
+/**
+ * Settings read back from storage, or null when any is missing or out
+ * of range
+ */
+export const parseVadSettings = (data: any): VadSettings | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  for (const [key, { min, max }] of Object.entries(VAD_RANGES)) {
+    const value = data[key];
+    if (typeof value !== 'number' || value < min || value > max) {
+      return null;
+    }
+  }
+  return {
+    threshold: data.threshold,
+    prefixPaddingMs: data.prefixPaddingMs,
+    silenceDurationMs: data.silenceDurationMs,
+  };
+};
+
+/**
+ * The session's turn_detection for the settings
+ */
+export const buildTurnDetection = (settings: VadSettings) => ({
+  type: 'server_vad',
+  threshold: settings.threshold,
+  prefix_padding_ms: settings.prefixPaddingMs,
+  silence_duration_ms: settings.silenceDurationMs,
+});